@@ -3,13 +3,22 @@ import { Routes, Route } from 'react-router-dom';
 import { useDispatch } from 'react-redux';
 import type { AppDispatch } from './app/store';
 import { checkAuth } from './features/auth/authSlice';
+import { useAuthSync } from './features/auth/useAuthSync';
 import Navbar from './components/Navbar';
 import ProtectedRoute from './components/ProtectedRoute';
+import SessionExpiredPrompt from './components/SessionExpiredPrompt';
 import Login from './features/auth/Login';
 import Register from './features/auth/Register';
+import ForgotPassword from './features/auth/ForgotPassword';
+import ResetPassword from './features/auth/ResetPassword';
 import BlogList from './features/blog/BlogList';
 import BlogForm from './features/blog/BlogForm';
 import ViewBlog from './features/blog/ViewBlog';
+import MyDrafts from './features/blog/MyDrafts';
+import SearchResults from './features/blog/SearchResults';
+import AuthorProfile from './features/profile/AuthorProfile';
+import AccountSettings from './features/profile/AccountSettings';
+import AdminConsole from './features/admin/AdminConsole';
 
 function App() {
   const dispatch = useDispatch<AppDispatch>();
@@ -18,16 +27,29 @@ function App() {
     dispatch(checkAuth());
   }, [dispatch]);
 
+  // Keep Redux in step with token refreshes, other tabs and expiry
+  useAuthSync();
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Navbar />
+      <SessionExpiredPrompt />
       <Routes>
         {/*View all blogs with pagination */}
         <Route path="/" element={<BlogList />} />
+        {/*View posts with a given tag*/}
+        <Route path="/tag/:slug" element={<BlogList />} />
+        {/*Full-text search results*/}
+        <Route path="/search" element={<SearchResults />} />
         {/*View a single blog*/}
-        <Route path="/blog/:id" element={<ViewBlog />} /> 
+        <Route path="/blog/:slug" element={<ViewBlog />} /> 
+        {/*Public author profile*/}
+        <Route path="/u/:id" element={<AuthorProfile />} />
         <Route path="/login" element={<Login />} />
         <Route path="/register" element={<Register />} />
+        <Route path="/forgot-password" element={<ForgotPassword />} />
+        {/*Landing page for the emailed recovery link*/}
+        <Route path="/reset-password" element={<ResetPassword />} />
         <Route
           path="/create"
           element={
@@ -37,13 +59,37 @@ function App() {
           }
         />
         <Route
-          path="/edit"
+          path="/edit/:id"
           element={
             <ProtectedRoute>
               <BlogForm mode="edit" />
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/drafts"
+          element={
+            <ProtectedRoute>
+              <MyDrafts />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/settings"
+          element={
+            <ProtectedRoute>
+              <AccountSettings />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin"
+          element={
+            <ProtectedRoute requireRole="moderator">
+              <AdminConsole />
+            </ProtectedRoute>
+          }
+        />
       </Routes>
     </div>
   );
@@ -2,6 +2,8 @@ import { configureStore } from '@reduxjs/toolkit';
 import authReducer from '../features/auth/authSlice';
 import blogReducer from '../features/blog/blogSlice';
 import commentReducer from '../features/comment/commentSlice';
+import profileReducer from '../features/profile/profileSlice';
+import adminReducer from '../features/admin/adminSlice';
 /**
  * Redux Store Configuration
  * * This is the central repository for the application's global state.
@@ -15,6 +17,10 @@ export const store = configureStore({
     blog: blogReducer,
     // Manages comments from blog posts
     comment: commentReducer,
+    // Manages public author pages (profile, posts, recent comments)
+    profile: profileReducer,
+    // Manages the moderator/admin console lists and bulk actions
+    admin: adminReducer,
  
   }
 });
@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import type { ProfileSummary } from '../types';
+import { getDisplayName, getInitials } from '../lib/profile';
+
+/** Tailwind size classes for each avatar size */
+const SIZE_CLASSES = {
+  sm: 'w-6 h-6 text-xs',
+  md: 'w-8 h-8 text-sm',
+  lg: 'w-12 h-12 text-lg',
+  xl: 'w-24 h-24 text-3xl',
+};
+
+/**
+ * Properties for the Avatar component.
+ * @property {Pick<ProfileSummary, 'display_name' | 'avatar_url'> | null} [profile] - Whose avatar to show.
+ * @property {'sm' | 'md' | 'lg' | 'xl'} [size='md'] - Rendered size.
+ * @property {string} [className] - Extra classes for the wrapper.
+ */
+interface AvatarProps {
+  profile?: Pick<ProfileSummary, 'display_name' | 'avatar_url'> | null;
+  size?: keyof typeof SIZE_CLASSES;
+  className?: string;
+}
+
+/**
+ * Avatar Component
+ * Round profile picture, falling back to the user's initials when
+ * there is no avatar or the image fails to load.
+ */
+export default function Avatar({ profile, size = 'md', className = '' }: AvatarProps) {
+  /** @type {string | null} The avatar URL that failed to load, if any */
+  const [failedUrl, setFailedUrl] = useState<string | null>(null);
+  const name = getDisplayName(profile);
+  const avatarUrl = profile?.avatar_url && profile.avatar_url !== failedUrl ? profile.avatar_url : null;
+
+  return avatarUrl ? (
+    <img
+      src={avatarUrl}
+      alt={name}
+      loading="lazy"
+      onError={() => setFailedUrl(avatarUrl)}
+      className={`${SIZE_CLASSES[size]} rounded-full object-cover shrink-0 ${className}`}
+    />
+  ) : (
+    <span
+      aria-hidden="true"
+      className={`${SIZE_CLASSES[size]} rounded-full bg-primary-100 text-primary-700 font-semibold inline-flex items-center justify-center shrink-0 ${className}`}
+    >
+      {getInitials(name)}
+    </span>
+  );
+}
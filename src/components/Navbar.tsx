@@ -1,8 +1,10 @@
 import { useState } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { useDispatch, useSelector } from 'react-redux';
 import type { AppDispatch, RootState } from '../app/store';
 import { logout } from '../features/auth/authSlice';
+import { getDisplayName, hasRole } from '../lib/profile';
+import Avatar from './Avatar';
 
 /**
  * Navbar Component
@@ -15,8 +17,9 @@ import { logout } from '../features/auth/authSlice';
  * 
  * @features
  * - Responsive design with mobile hamburger menu
- * - User authentication status display
- * - Dynamic navigation based on auth state
+ * - User authentication status display (avatar and display name, linking to settings)
+ * - Dynamic navigation based on auth state (Admin link for moderators and admins)
+ * - Post search box that opens `/search?q=`
  * - Smooth transitions and animations
  * - Auto-close menu on navigation
  * 
@@ -24,8 +27,10 @@ import { logout } from '../features/auth/authSlice';
  */
 export default function Navbar() {
   const dispatch = useDispatch<AppDispatch>();
-  const { user } = useSelector((state: RootState) => state.auth);
+  const { user, profile } = useSelector((state: RootState) => state.auth);
+  const navigate = useNavigate();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
 
   /**
    * Handle Logout
@@ -44,6 +49,35 @@ export default function Navbar() {
     setIsMobileMenuOpen(false);
   };
 
+  /**
+   * Handle Search
+   * Opens the results page for the typed query and closes mobile menu.
+   */
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = searchQuery.trim();
+    if (!query) return;
+    navigate(`/search?q=${encodeURIComponent(query)}`);
+    setIsMobileMenuOpen(false);
+  };
+
+  /**
+   * Search Form
+   * Shared by the desktop bar and the mobile menu.
+   */
+  const renderSearchForm = (className: string) => (
+    <form onSubmit={handleSearch} role="search" className={className}>
+      <input
+        type="search"
+        value={searchQuery}
+        onChange={(e) => setSearchQuery(e.target.value)}
+        placeholder="Search posts..."
+        aria-label="Search posts"
+        className="w-full bg-white/20 placeholder-white/70 text-white px-4 py-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-white/50"
+      />
+    </form>
+  );
+
   /**
    * Toggle Mobile Menu
    * Toggles the mobile navigation menu open/closed.
@@ -65,13 +99,35 @@ export default function Navbar() {
             Roblog
           </Link>
 
+          {/* Desktop Search - Hidden on Mobile */}
+          {renderSearchForm('hidden md:block flex-1 max-w-sm mx-6')}
+
           {/* Desktop Navigation Links - Hidden on Mobile */}
           <div className="hidden md:flex gap-6 items-center">
             {user ? (
               <>
-                <span className="text-sm bg-white/20 px-3 py-1 rounded-full truncate max-w-[200px]">
-                  {user.email}
-                </span>
+                <Link
+                  to="/settings"
+                  className="flex items-center gap-2 text-sm bg-white/20 hover:bg-white/30 pl-1 pr-3 py-1 rounded-full max-w-[200px] transition-colors"
+                  title={`${user.email} · Settings`}
+                >
+                  <Avatar profile={profile} size="sm" />
+                  <span className="truncate">{getDisplayName(profile, user.email)}</span>
+                </Link>
+                {hasRole(profile, 'moderator') && (
+                  <Link 
+                    to="/admin" 
+                    className="hover:text-gray-200 transition-colors font-medium whitespace-nowrap"
+                  >
+                    Admin
+                  </Link>
+                )}
+                <Link 
+                  to="/drafts" 
+                  className="hover:text-gray-200 transition-colors font-medium whitespace-nowrap"
+                >
+                  My Drafts
+                </Link>
                 <Link 
                   to="/create" 
                   className="hover:text-gray-200 transition-colors font-medium whitespace-nowrap"
@@ -150,12 +206,40 @@ export default function Navbar() {
         {isMobileMenuOpen && (
           <div className="md:hidden mt-4 pt-4 border-t border-white/20 animate-slideDown">
             <div className="flex flex-col gap-4">
+              {/* Search */}
+              {renderSearchForm('w-full')}
+
               {user ? (
                 <>
-                  {/* User Email Badge */}
-                  <div className="text-sm bg-white/20 px-3 py-2 rounded-lg truncate">
-                    {user.email}
-                  </div>
+                  {/* User Badge - Opens settings */}
+                  <Link
+                    to="/settings"
+                    onClick={closeMobileMenu}
+                    className="flex items-center gap-2 text-sm bg-white/20 hover:bg-white/30 px-3 py-2 rounded-lg transition-colors"
+                  >
+                    <Avatar profile={profile} size="sm" />
+                    <span className="truncate">{getDisplayName(profile, user.email)}</span>
+                  </Link>
+                  
+                  {/* Admin Link - Moderators and admins only */}
+                  {hasRole(profile, 'moderator') && (
+                    <Link 
+                      to="/admin"
+                      onClick={closeMobileMenu}
+                      className="hover:bg-white/10 px-3 py-2 rounded-lg transition-colors font-medium text-left"
+                    >
+                      Admin
+                    </Link>
+                  )}
+                  
+                  {/* My Drafts Link */}
+                  <Link 
+                    to="/drafts"
+                    onClick={closeMobileMenu}
+                    className="hover:bg-white/10 px-3 py-2 rounded-lg transition-colors font-medium text-left"
+                  >
+                    My Drafts
+                  </Link>
                   
                   {/* Create Blog Link */}
                   <Link 
@@ -1,24 +1,44 @@
-import { Navigate } from 'react-router-dom';
+import { Link, Navigate, useLocation } from 'react-router-dom';
 import { useSelector } from 'react-redux';
 import type { RootState } from '../app/store';
+import type { UserRole } from '../types';
+import { hasRole } from '../lib/profile';
+import { getLoginPath } from '../lib/returnTo';
 /**
  * Properties for the ProtectedRoute component.
  * @property children - The component(s) that should be rendered if the user is authenticated.
+ * @property requireRole - Optional minimum role, e.g. 'moderator' (admins also pass).
  */
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  requireRole?: UserRole;
 }
 /**
  * ProtectedRoute Component
  * * Acts as a wrapper for routes that require a logged-in session (e.g., Create Blog).
  * * LOGIC FLOW:
+ * 0. EXPIRED: If the session ran out mid-visit, keep the page mounted under the re-login prompt
+ *    (not for role-restricted pages: the role can no longer be checked).
  * 1. LOADING: If Redux is still checking the session, show a full-screen spinner.
- * 2. UNAUTHORIZED: If no user is found after loading, redirect to the /login page.
- * 3. AUTHORIZED: If a user exists, render the 'children' (the actual private page).
+ * 2. UNAUTHORIZED: If no user is found after loading, redirect to the /login page,
+ *    remembering this page so Login can send them back.
+ * 3. FORBIDDEN: If a role is required and the user lacks it, explain instead of rendering.
+ * 4. AUTHORIZED: If a user exists, render the 'children' (the actual private page).
  */
-export default function ProtectedRoute({ children }: ProtectedRouteProps) {
+export default function ProtectedRoute({ children, requireRole }: ProtectedRouteProps) {
    // Access global auth state
-  const { user, loading } = useSelector((state: RootState) => state.auth);
+  const { user, profile, loading, expiredEmail } = useSelector((state: RootState) => state.auth);
+  const location = useLocation();
+  /**
+   * STEP 0: Session expired.
+   * Unmounting now would throw away unsaved input, so stay put until the
+   * user logs back in or chooses to leave.
+   * Role-restricted pages fall through: without a profile the role cannot be
+   * checked, so they go to the login page like any signed-out visit.
+   */
+  if (expiredEmail && !requireRole) {
+    return <>{children}</>;
+  }
     /**
    * STEP 1: Wait for Auth initialization.
    * Prevents the app from flicking to the login page before we know if a user exists.
@@ -40,12 +60,32 @@ export default function ProtectedRoute({ children }: ProtectedRouteProps) {
    * STEP 2: Gatekeeping.
    * If not logged in, force navigation to Login. 
    * 'replace' ensures the user can't click 'back' to get into the private page.
+   * The page is passed both as router state and as `?next=` (which survives a refresh).
    */
   if (!user) {
-    return <Navigate to="/login" replace />;
+    return <Navigate to={getLoginPath(location)} replace state={{ from: location }} />;
+  }
+  /**
+   * STEP 3: Role check.
+   * Logged in but not allowed here, e.g. a regular user opening an admin page.
+   */
+  if (requireRole && !hasRole(profile, requireRole)) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="card text-center py-12">
+          <h1 className="text-2xl font-bold text-gray-800 mb-4">Access denied</h1>
+          <p className="text-gray-600 mb-6">
+            You need {requireRole === 'admin' ? 'admin' : 'moderator'} rights to view this page.
+          </p>
+          <Link to="/" className="btn btn-primary">
+            Back to Home
+          </Link>
+        </div>
+      </div>
+    );
   }
    /**
-   * STEP 3: Access Granted.
+   * STEP 4: Access Granted.
    * Render the protected content.
    */
   return <>{children}</>;
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import type { AppDispatch, RootState } from '../app/store';
+import { login, clearError, clearExpiredSession } from '../features/auth/authSlice';
+import ErrorAlert from '../features/blog/components/ErrorAlert';
+
+/**
+ * SessionExpiredPrompt Component
+ * * * Modal asking the user to log in again after their session ended on its own.
+ * * FEATURES:
+ * - Shown over the current page, so an open editor and its unsaved input stay put.
+ * - Email is filled in from the expired session; only the password is needed.
+ * - "Leave" gives up and lets protected pages redirect to /login as usual.
+ */
+export default function SessionExpiredPrompt() {
+  const dispatch = useDispatch<AppDispatch>();
+  const { expiredEmail, loading, error } = useSelector((state: RootState) => state.auth);
+  /** @type {string} Password input */
+  const [password, setPassword] = useState('');
+
+  if (!expiredEmail) return null;
+
+  /**
+   * Logs back in as the same user; a successful login clears `expiredEmail`.
+   * @param {React.FormEvent} e - Form event object.
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await dispatch(login({ email: expiredEmail, password })).unwrap();
+      setPassword('');
+    } catch {
+      // The error is shown from the auth state
+    }
+  };
+
+  const handleLeave = () => {
+    setPassword('');
+    dispatch(clearError());
+    dispatch(clearExpiredSession());
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="session-expired-title"
+    >
+      <div className="card max-w-md w-full">
+        <h2 id="session-expired-title" className="text-2xl font-bold text-gray-800 mb-2">
+          Your session has expired
+        </h2>
+        <p className="text-gray-600 mb-6">
+          Log in again as <span className="font-semibold text-gray-800">{expiredEmail}</span> to
+          carry on. Nothing on this page will be lost.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="session-password" className="label">
+              Password
+            </label>
+            <input
+              id="session-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              autoFocus
+              autoComplete="current-password"
+              className="input"
+              placeholder="••••••••"
+            />
+          </div>
+
+          {error && <ErrorAlert message={error} />}
+
+          <div className="flex gap-2">
+            <button type="submit" disabled={loading} className="btn btn-primary flex-1">
+              {loading ? 'Logging in...' : 'Log in'}
+            </button>
+            <button type="button" onClick={handleLeave} className="btn btn-outline">
+              Leave
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+-- 07_add_blog_status.sql
+-- Adds draft / published / scheduled states to blog posts
+-- Drafts and not-yet-due scheduled posts are only visible to their author
+
+-- ─── Status Columns ──────────────────────────────────────────────────────────
+
+ALTER TABLE blogs
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'published'
+    CHECK (status IN ('draft', 'published', 'scheduled'));
+
+ALTER TABLE blogs
+    ADD COLUMN IF NOT EXISTS publish_at TIMESTAMPTZ;
+
+-- Existing posts were published the moment they were created
+UPDATE blogs
+SET publish_at = created_at
+WHERE publish_at IS NULL;
+
+ALTER TABLE blogs
+    ALTER COLUMN publish_at SET DEFAULT NOW(),
+    ALTER COLUMN publish_at SET NOT NULL;
+
+-- ─── RLS Policies ────────────────────────────────────────────────────────────
+
+-- Replace the "everyone sees everything" policy
+DROP POLICY IF EXISTS "Blogs are viewable by everyone" ON blogs;
+
+-- Everyone can read posts that are live; authors can always read their own
+CREATE POLICY "Published blogs are viewable by everyone"
+    ON blogs FOR SELECT
+    USING (
+        (status <> 'draft' AND publish_at <= NOW())
+        OR auth.uid() = author_id
+    );
+
+-- ─── Index for Performance ───────────────────────────────────────────────────
+
+CREATE INDEX IF NOT EXISTS blogs_status_publish_at_idx ON blogs(status, publish_at DESC);
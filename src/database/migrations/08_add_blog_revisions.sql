@@ -0,0 +1,64 @@
+-- 08_add_blog_revisions.sql
+-- Keeps a copy of every previous version of a blog post
+-- Filled automatically by a trigger whenever a post's text or blocks change
+
+-- ─── Create Revisions Table ──────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS blog_revisions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    blog_id UUID NOT NULL REFERENCES blogs(id) ON DELETE CASCADE,
+    author_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    content TEXT NOT NULL,
+    image_url TEXT,
+    content_blocks JSONB DEFAULT '[]'::jsonb,
+    -- When this version was originally saved (the post's updated_at at the time)
+    saved_at TIMESTAMPTZ NOT NULL,
+    -- When this version was replaced by a newer one
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- ─── Enable RLS ──────────────────────────────────────────────────────────────
+
+ALTER TABLE blog_revisions ENABLE ROW LEVEL SECURITY;
+
+-- ─── RLS Policies ────────────────────────────────────────────────────────────
+
+-- Only the post's author can read its history
+-- (rows are written by the trigger below, so there is no INSERT policy)
+CREATE POLICY "Authors can view their own blog revisions"
+    ON blog_revisions FOR SELECT
+    USING (auth.uid() = author_id);
+
+-- ─── Function: Snapshot Previous Version ─────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION snapshot_blog_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO blog_revisions (blog_id, author_id, title, content, image_url, content_blocks, saved_at)
+    VALUES (OLD.id, OLD.author_id, OLD.title, OLD.content, OLD.image_url, OLD.content_blocks, OLD.updated_at);
+    RETURN NEW;
+END;
+$$;
+
+-- ─── Trigger: On Blog Updated ────────────────────────────────────────────────
+
+DROP TRIGGER IF EXISTS on_blog_updated_snapshot ON blogs;
+
+CREATE TRIGGER on_blog_updated_snapshot
+    AFTER UPDATE ON blogs
+    FOR EACH ROW
+    WHEN (
+        OLD.title IS DISTINCT FROM NEW.title
+        OR OLD.content IS DISTINCT FROM NEW.content
+        OR OLD.content_blocks IS DISTINCT FROM NEW.content_blocks
+    )
+    EXECUTE FUNCTION snapshot_blog_revision();
+
+-- ─── Index for Performance ───────────────────────────────────────────────────
+
+CREATE INDEX IF NOT EXISTS blog_revisions_blog_id_idx ON blog_revisions(blog_id, created_at DESC);
@@ -0,0 +1,63 @@
+-- 09_add_tags.sql
+-- Adds tags and a many-to-many join table between blogs and tags
+
+-- ─── Create Tags Table ───────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS tags (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    slug TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- ─── Create Blog Tags Join Table ─────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS blog_tags (
+    blog_id UUID NOT NULL REFERENCES blogs(id) ON DELETE CASCADE,
+    tag_id UUID NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+    PRIMARY KEY (blog_id, tag_id)
+);
+
+-- ─── Enable RLS ──────────────────────────────────────────────────────────────
+
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE blog_tags ENABLE ROW LEVEL SECURITY;
+
+-- ─── RLS Policies: tags ──────────────────────────────────────────────────────
+
+-- Anyone can read tags (needed for chips and autocomplete)
+CREATE POLICY "Tags are viewable by everyone"
+    ON tags FOR SELECT
+    USING (true);
+
+-- Any logged-in user can create a new tag while writing a post
+CREATE POLICY "Authenticated users can create tags"
+    ON tags FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+-- ─── RLS Policies: blog_tags ─────────────────────────────────────────────────
+
+-- Anyone can read which tags a post has (blog RLS still hides drafts)
+CREATE POLICY "Blog tags are viewable by everyone"
+    ON blog_tags FOR SELECT
+    USING (true);
+
+-- Only a post's author can tag it
+CREATE POLICY "Authors can tag their own blogs"
+    ON blog_tags FOR INSERT
+    WITH CHECK (
+        EXISTS (SELECT 1 FROM blogs WHERE blogs.id = blog_id AND blogs.author_id = auth.uid())
+    );
+
+-- Only a post's author can untag it
+CREATE POLICY "Authors can untag their own blogs"
+    ON blog_tags FOR DELETE
+    USING (
+        EXISTS (SELECT 1 FROM blogs WHERE blogs.id = blog_id AND blogs.author_id = auth.uid())
+    );
+
+-- ─── Indexes for Performance ─────────────────────────────────────────────────
+
+CREATE INDEX IF NOT EXISTS blog_tags_tag_id_idx ON blog_tags(tag_id);
+CREATE INDEX IF NOT EXISTS tags_name_idx ON tags(name);
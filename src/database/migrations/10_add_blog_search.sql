@@ -0,0 +1,37 @@
+-- 10_add_blog_search.sql
+-- Adds full-text search over blog titles and content
+-- Results are ranked by relevance, with title matches weighted above body matches
+
+-- ─── Search Vector Column ────────────────────────────────────────────────────
+
+-- Generated column, so Postgres keeps it in step with every insert and update
+ALTER TABLE blogs
+    ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce(title, '')), 'A')
+        || setweight(to_tsvector('english', coalesce(content, '')), 'B')
+    ) STORED;
+
+-- ─── Index for Performance ───────────────────────────────────────────────────
+
+CREATE INDEX IF NOT EXISTS blogs_search_vector_idx ON blogs USING GIN (search_vector);
+
+-- ─── Function: Search Blogs ──────────────────────────────────────────────────
+
+-- Returns live posts matching the query, most relevant first.
+-- Accepts web-style syntax: "quoted phrases", OR, and -excluded words.
+-- Runs as the caller (SECURITY INVOKER), so blog RLS still applies.
+-- Called through supabase.rpc('search_blogs'); pagination is applied by the client.
+CREATE OR REPLACE FUNCTION search_blogs(search_query TEXT)
+RETURNS SETOF blogs
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT blogs.*
+    FROM blogs, websearch_to_tsquery('english', search_query) AS query
+    WHERE blogs.search_vector @@ query
+      AND blogs.status <> 'draft'
+      AND blogs.publish_at <= NOW()
+    ORDER BY ts_rank(blogs.search_vector, query) DESC, blogs.created_at DESC;
+$$;
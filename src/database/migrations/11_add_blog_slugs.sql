@@ -0,0 +1,104 @@
+-- 11_add_blog_slugs.sql
+-- Adds human-readable, unique slugs for /blog/:slug URLs
+-- Old slugs are kept as aliases so links shared before a title change still work
+
+-- ─── Slug Column ─────────────────────────────────────────────────────────────
+
+ALTER TABLE blogs
+    ADD COLUMN IF NOT EXISTS slug TEXT;
+
+-- Existing posts get a slug from their title; duplicates get part of their ID
+WITH candidates AS (
+    SELECT
+        id,
+        COALESCE(NULLIF(TRIM(BOTH '-' FROM LEFT(REGEXP_REPLACE(LOWER(title), '[^a-z0-9]+', '-', 'g'), 80)), ''), 'post') AS base,
+        ROW_NUMBER() OVER (
+            PARTITION BY COALESCE(NULLIF(TRIM(BOTH '-' FROM LEFT(REGEXP_REPLACE(LOWER(title), '[^a-z0-9]+', '-', 'g'), 80)), ''), 'post')
+            ORDER BY created_at, id
+        ) AS position
+    FROM blogs
+    WHERE slug IS NULL
+)
+UPDATE blogs
+SET slug = CASE
+    WHEN candidates.position = 1 THEN candidates.base
+    ELSE candidates.base || '-' || LEFT(blogs.id::TEXT, 8)
+END
+FROM candidates
+WHERE blogs.id = candidates.id;
+
+ALTER TABLE blogs
+    ALTER COLUMN slug SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS blogs_slug_key ON blogs(slug);
+
+-- ─── Create Slug Aliases Table ───────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS blog_slug_aliases (
+    slug TEXT PRIMARY KEY,
+    blog_id UUID NOT NULL REFERENCES blogs(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- ─── Enable RLS ──────────────────────────────────────────────────────────────
+
+ALTER TABLE blog_slug_aliases ENABLE ROW LEVEL SECURITY;
+
+-- ─── RLS Policies ────────────────────────────────────────────────────────────
+
+-- Anyone can resolve an old link (blog RLS still hides drafts)
+-- (rows are written by the trigger below, so there is no INSERT policy)
+CREATE POLICY "Blog slug aliases are viewable by everyone"
+    ON blog_slug_aliases FOR SELECT
+    USING (true);
+
+-- ─── Function: Assign Unique Slug ────────────────────────────────────────────
+
+-- The client sends a slug made from the title; this makes it unique
+-- across posts and aliases by appending -2, -3, ... and, when a post's
+-- slug changes, keeps the old one as an alias.
+-- SECURITY DEFINER so slugs of other authors' drafts are seen too.
+CREATE OR REPLACE FUNCTION assign_blog_slug()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    base TEXT := COALESCE(NULLIF(NEW.slug, ''), 'post');
+    candidate TEXT := base;
+    suffix INT := 1;
+BEGIN
+    WHILE EXISTS (SELECT 1 FROM blogs WHERE slug = candidate AND id <> NEW.id)
+       OR EXISTS (SELECT 1 FROM blog_slug_aliases WHERE slug = candidate AND blog_id <> NEW.id)
+    LOOP
+        suffix := suffix + 1;
+        candidate := base || '-' || suffix;
+    END LOOP;
+
+    NEW.slug := candidate;
+
+    IF TG_OP = 'UPDATE' AND OLD.slug IS DISTINCT FROM NEW.slug THEN
+        INSERT INTO blog_slug_aliases (slug, blog_id)
+        VALUES (OLD.slug, OLD.id)
+        ON CONFLICT (slug) DO NOTHING;
+        -- A post going back to an earlier title reclaims its old slug
+        DELETE FROM blog_slug_aliases WHERE slug = NEW.slug AND blog_id = NEW.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- ─── Trigger: On Blog Slug Set ───────────────────────────────────────────────
+
+DROP TRIGGER IF EXISTS on_blog_slug_set ON blogs;
+
+CREATE TRIGGER on_blog_slug_set
+    BEFORE INSERT OR UPDATE OF slug ON blogs
+    FOR EACH ROW
+    EXECUTE FUNCTION assign_blog_slug();
+
+-- ─── Index for Performance ───────────────────────────────────────────────────
+
+CREATE INDEX IF NOT EXISTS blog_slug_aliases_blog_id_idx ON blog_slug_aliases(blog_id);
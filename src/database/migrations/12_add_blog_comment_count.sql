@@ -0,0 +1,52 @@
+-- 12_add_blog_comment_count.sql
+-- Keeps a comment count on each blog so the feed can sort by "most commented"
+-- Maintained by triggers on the comments table
+
+-- ─── Comment Count Column ────────────────────────────────────────────────────
+
+ALTER TABLE blogs
+    ADD COLUMN IF NOT EXISTS comment_count INT NOT NULL DEFAULT 0;
+
+-- Backfill existing posts
+UPDATE blogs
+SET comment_count = counts.total
+FROM (
+    SELECT blog_id, COUNT(*) AS total
+    FROM comments
+    GROUP BY blog_id
+) AS counts
+WHERE blogs.id = counts.blog_id;
+
+-- ─── Function: Sync Comment Count ────────────────────────────────────────────
+
+-- SECURITY DEFINER because commenters may not update other people's posts
+CREATE OR REPLACE FUNCTION sync_blog_comment_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        UPDATE blogs SET comment_count = comment_count + 1 WHERE id = NEW.blog_id;
+    ELSIF TG_OP = 'DELETE' THEN
+        UPDATE blogs SET comment_count = GREATEST(comment_count - 1, 0) WHERE id = OLD.blog_id;
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+-- ─── Trigger: On Comment Added or Removed ────────────────────────────────────
+
+DROP TRIGGER IF EXISTS on_comment_count_changed ON comments;
+
+CREATE TRIGGER on_comment_count_changed
+    AFTER INSERT OR DELETE ON comments
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_blog_comment_count();
+
+-- ─── Indexes for Sorting ─────────────────────────────────────────────────────
+
+CREATE INDEX IF NOT EXISTS blogs_comment_count_idx ON blogs(comment_count DESC, id DESC);
+CREATE INDEX IF NOT EXISTS blogs_updated_at_idx ON blogs(updated_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS blogs_author_id_idx ON blogs(author_id, created_at DESC);
@@ -0,0 +1,13 @@
+-- 13_add_profile_bio.sql
+-- Adds a short biography to profiles, shown on public author pages
+
+-- ─── Bio Column ──────────────────────────────────────────────────────────────
+
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS bio TEXT
+    CHECK (char_length(bio) <= 500);
+
+-- ─── Index for Performance ───────────────────────────────────────────────────
+
+-- Author pages list a user's most recent comments
+CREATE INDEX IF NOT EXISTS comments_author_id_idx ON comments(author_id, created_at DESC);
@@ -0,0 +1,69 @@
+-- 14_add_profile_roles.sql
+-- Adds a role to each profile: user, moderator or admin
+-- Everyone starts as a user; the first admin is set by hand from the SQL editor:
+--   UPDATE profiles SET role = 'admin' WHERE id = '<user id>';
+
+-- ─── Role Column ─────────────────────────────────────────────────────────────
+
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'user'
+    CHECK (role IN ('user', 'moderator', 'admin'));
+
+-- ─── Function: Current User's Role ───────────────────────────────────────────
+
+-- SECURITY DEFINER so RLS policies can call it without recursing into
+-- the profiles policies themselves
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT role FROM profiles WHERE id = auth.uid();
+$$;
+
+-- ─── Function: Protect Role Changes ──────────────────────────────────────────
+
+-- "Users can insert/update their own profile" would otherwise let anyone make
+-- themselves an admin. Only admins may set a role other than 'user' on a new
+-- profile or change one later; requests without a user (SQL editor, service
+-- role, the signup trigger) are trusted.
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    role_changed BOOLEAN;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        role_changed := NEW.role IS DISTINCT FROM 'user';
+    ELSE
+        role_changed := NEW.role IS DISTINCT FROM OLD.role;
+    END IF;
+
+    IF role_changed
+       AND auth.uid() IS NOT NULL
+       AND current_user_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Only admins can change roles'
+            USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- ─── Trigger: On Profile Role Changed ────────────────────────────────────────
+
+DROP TRIGGER IF EXISTS on_profile_role_changed ON profiles;
+
+CREATE TRIGGER on_profile_role_changed
+    BEFORE INSERT OR UPDATE OF role ON profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_profile_role();
+
+-- ─── Index for Performance ───────────────────────────────────────────────────
+
+-- The admin console filters users by role
+CREATE INDEX IF NOT EXISTS profiles_role_idx ON profiles(role) WHERE role <> 'user';
@@ -0,0 +1,48 @@
+-- 15_add_moderation_policies.sql
+-- Lets moderators and admins edit or remove anyone's posts and comments,
+-- and lets admins assign roles (see 14_add_profile_roles.sql)
+-- Policies are OR'ed with the existing author-only ones
+
+-- ─── RLS Policies: Blogs ─────────────────────────────────────────────────────
+
+CREATE POLICY "Moderators can update any blog"
+    ON blogs FOR UPDATE
+    USING (current_user_role() IN ('moderator', 'admin'));
+
+CREATE POLICY "Moderators can delete any blog"
+    ON blogs FOR DELETE
+    USING (current_user_role() IN ('moderator', 'admin'));
+
+-- ─── RLS Policies: Blog Tags ─────────────────────────────────────────────────
+
+-- Editing someone else's post replaces its tags too
+CREATE POLICY "Moderators can tag any blog"
+    ON blog_tags FOR INSERT
+    WITH CHECK (current_user_role() IN ('moderator', 'admin'));
+
+CREATE POLICY "Moderators can untag any blog"
+    ON blog_tags FOR DELETE
+    USING (current_user_role() IN ('moderator', 'admin'));
+
+-- ─── RLS Policies: Comments ──────────────────────────────────────────────────
+
+CREATE POLICY "Moderators can update any comment"
+    ON comments FOR UPDATE
+    USING (current_user_role() IN ('moderator', 'admin'));
+
+CREATE POLICY "Moderators can delete any comment"
+    ON comments FOR DELETE
+    USING (current_user_role() IN ('moderator', 'admin'));
+
+-- ─── RLS Policies: Profiles ──────────────────────────────────────────────────
+
+-- Needed to change another user's role; the on_profile_role_changed
+-- trigger still rejects role changes from anyone but an admin
+CREATE POLICY "Admins can update any profile"
+    ON profiles FOR UPDATE
+    USING (current_user_role() = 'admin');
+
+-- ─── Index for Performance ───────────────────────────────────────────────────
+
+-- The admin console lists the newest comments first
+CREATE INDEX IF NOT EXISTS comments_created_at_idx ON comments(created_at DESC);
@@ -0,0 +1,70 @@
+-- 16_add_comment_replies.sql
+-- Threaded replies: a comment can answer another comment on the same post
+-- A comment that still has replies is blanked and marked deleted instead of
+-- being removed, so the thread under it stays readable
+
+-- ─── Reply Columns ───────────────────────────────────────────────────────────
+
+ALTER TABLE comments
+    ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES comments(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- ─── Function: Keep Replies on the Same Post ─────────────────────────────────
+
+CREATE OR REPLACE FUNCTION check_comment_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM comments WHERE id = NEW.parent_id AND blog_id = NEW.blog_id
+    ) THEN
+        RAISE EXCEPTION 'A reply must be on the same post as its parent comment';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- ─── Trigger: On Reply Added ─────────────────────────────────────────────────
+
+DROP TRIGGER IF EXISTS on_comment_parent_set ON comments;
+
+CREATE TRIGGER on_comment_parent_set
+    BEFORE INSERT OR UPDATE OF parent_id ON comments
+    FOR EACH ROW
+    EXECUTE FUNCTION check_comment_parent();
+
+-- ─── Function: Remove Empty Placeholders ─────────────────────────────────────
+
+-- Once the last reply under a "[deleted]" comment is gone, the placeholder
+-- has nothing left to hold together, so it goes too (and so on up the thread).
+-- SECURITY DEFINER because the reply's author doesn't own the parent.
+CREATE OR REPLACE FUNCTION remove_empty_comment_placeholder()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF OLD.parent_id IS NOT NULL THEN
+        DELETE FROM comments
+        WHERE id = OLD.parent_id
+          AND deleted_at IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM comments WHERE parent_id = OLD.parent_id);
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+-- ─── Trigger: On Reply Removed ───────────────────────────────────────────────
+
+DROP TRIGGER IF EXISTS on_comment_reply_removed ON comments;
+
+CREATE TRIGGER on_comment_reply_removed
+    AFTER DELETE ON comments
+    FOR EACH ROW
+    EXECUTE FUNCTION remove_empty_comment_placeholder();
+
+-- ─── Index for Performance ───────────────────────────────────────────────────
+
+CREATE INDEX IF NOT EXISTS comments_parent_id_idx ON comments(parent_id);
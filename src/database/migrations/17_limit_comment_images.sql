@@ -0,0 +1,27 @@
+-- 17_limit_comment_images.sql
+-- Makes image_urls the source of truth for comment images and caps how many a comment can carry
+-- The limit matches MAX_COMMENT_IMAGES in src/features/comment/commentImages.ts
+
+-- ─── Backfill Legacy Images ──────────────────────────────────────────────────
+
+-- Comments saved with only image_url since 06_add_comments_image_urls.sql ran
+UPDATE comments
+SET image_urls = jsonb_build_array(image_url),
+    image_url = NULL
+WHERE image_url IS NOT NULL
+  AND image_url != ''
+  AND (image_urls IS NULL OR image_urls = '[]'::jsonb);
+
+UPDATE comments SET image_urls = '[]'::jsonb WHERE image_urls IS NULL;
+
+-- ─── Image List Constraints ──────────────────────────────────────────────────
+
+ALTER TABLE comments
+    ALTER COLUMN image_urls SET NOT NULL;
+
+ALTER TABLE comments
+    DROP CONSTRAINT IF EXISTS comments_image_urls_check;
+
+ALTER TABLE comments
+    ADD CONSTRAINT comments_image_urls_check
+    CHECK (jsonb_typeof(image_urls) = 'array' AND jsonb_array_length(image_urls) <= 4);
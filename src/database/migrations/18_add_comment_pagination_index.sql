@@ -0,0 +1,7 @@
+-- 18_add_comment_pagination_index.sql
+-- Supports loading a post's comments a page at a time, oldest first
+-- Pages are keyed on (created_at, id), so the index covers the id tie-breaker too
+
+-- ─── Index for Keyset Pagination ─────────────────────────────────────────────
+
+CREATE INDEX IF NOT EXISTS comments_blog_id_cursor_idx ON comments(blog_id, created_at, id);
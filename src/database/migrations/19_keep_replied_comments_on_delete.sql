@@ -0,0 +1,51 @@
+-- 19_keep_replied_comments_on_delete.sql
+-- Decides in the database whether a deleted comment stays as a "[deleted]" placeholder
+-- Checking for replies in the app and then deleting left a gap where a new
+-- reply could be cascaded away with its parent; the trigger below makes the
+-- check and the delete one step, and the foreign key no longer cascades
+
+-- ─── Reply Foreign Key ───────────────────────────────────────────────────────
+
+ALTER TABLE comments
+    DROP CONSTRAINT IF EXISTS comments_parent_id_fkey;
+
+ALTER TABLE comments
+    ADD CONSTRAINT comments_parent_id_fkey
+    FOREIGN KEY (parent_id) REFERENCES comments(id) ON DELETE RESTRICT;
+
+-- ─── Function: Blank Comments That Have Replies ──────────────────────────────
+
+-- A comment with replies is blanked and marked deleted instead of removed,
+-- and the DELETE skips the row. When the whole post is being deleted its
+-- comments all go, so the check steps aside once the post row is gone.
+-- SECURITY DEFINER so draft posts and other users' replies are visible here;
+-- the caller's own DELETE policy has already allowed the row.
+CREATE OR REPLACE FUNCTION keep_comment_with_replies()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM comments WHERE parent_id = OLD.id)
+       AND EXISTS (SELECT 1 FROM blogs WHERE id = OLD.blog_id) THEN
+        UPDATE comments
+        SET content = '',
+            image_url = NULL,
+            image_urls = '[]'::jsonb,
+            deleted_at = COALESCE(deleted_at, now())
+        WHERE id = OLD.id;
+        RETURN NULL;
+    END IF;
+    RETURN OLD;
+END;
+$$;
+
+-- ─── Trigger: On Comment Deleted ─────────────────────────────────────────────
+
+DROP TRIGGER IF EXISTS on_comment_delete_keep_replies ON comments;
+
+CREATE TRIGGER on_comment_delete_keep_replies
+    BEFORE DELETE ON comments
+    FOR EACH ROW
+    EXECUTE FUNCTION keep_comment_with_replies();
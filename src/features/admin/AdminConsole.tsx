@@ -0,0 +1,370 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import type { AppDispatch, RootState } from '../../app/store';
+import type { AdminTab, UserRole } from '../../types';
+import {
+  fetchAdminUsers,
+  fetchAdminPosts,
+  fetchAdminComments,
+  setUserRole,
+  deletePosts,
+  deleteComments,
+  clearError,
+} from './adminSlice';
+import { getDisplayName, hasRole } from '../../lib/profile';
+import Avatar from '../../components/Avatar';
+import Pagination from '../blog/components/Pagination';
+import LoadingSpinner from '../blog/components/LoadingSpinner';
+import ErrorAlert from '../blog/components/ErrorAlert';
+
+/** Tabs in display order */
+const TABS: { id: AdminTab; label: string }[] = [
+  { id: 'users', label: 'Users' },
+  { id: 'posts', label: 'Posts' },
+  { id: 'comments', label: 'Comments' },
+];
+
+const ROLES: UserRole[] = ['user', 'moderator', 'admin'];
+
+/** Loads one page of the given tab's list */
+function loadTab(dispatch: AppDispatch, tab: AdminTab, args: { search: string; page: number }) {
+  switch (tab) {
+    case 'posts':
+      return dispatch(fetchAdminPosts(args));
+    case 'comments':
+      return dispatch(fetchAdminComments(args));
+    default:
+      return dispatch(fetchAdminUsers(args));
+  }
+}
+
+const isAdminTab = (value: string | null): value is AdminTab =>
+  TABS.some((tab) => tab.id === value);
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+/**
+ * AdminConsole Component
+ * * * Moderation area at `/admin` for moderators and admins.
+ * * FEATURES:
+ * - Tabs: Users, posts and comments, each searchable and paginated.
+ * - URL Driven: `?tab=`, `?q=` and `?page=` survive a refresh and can be shared.
+ * - Roles: Admins can make users moderators or admins (but not change their own role).
+ * - Bulk Delete: Select posts or comments and remove them in one go.
+ *   Accounts themselves can only be deleted from the Supabase dashboard.
+ */
+export default function AdminConsole() {
+  const dispatch = useDispatch<AppDispatch>();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const tabParam = searchParams.get('tab');
+  const tab: AdminTab = isAdminTab(tabParam) ? tabParam : 'users';
+  const search = (searchParams.get('q') || '').trim();
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+
+  const { user, profile } = useSelector((state: RootState) => state.auth);
+  const { users, posts, comments, total, loading, error, totalPages, currentPage } = useSelector(
+    (state: RootState) => state.admin
+  );
+  const isAdmin = hasRole(profile, 'admin');
+
+  /** @type {string} Search box contents, applied on submit */
+  const [searchInput, setSearchInput] = useState(search);
+  /** @type {Set<string>} IDs ticked for bulk delete */
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Load the open tab whenever the tab, search or page changes
+  useEffect(() => {
+    const request = loadTab(dispatch, tab, { search, page });
+    return () => {
+      request.abort();
+    };
+  }, [tab, search, page, dispatch]);
+
+  /**
+   * Updates the URL (which triggers a reload) and clears the selection.
+   */
+  const updateParams = (next: { tab?: AdminTab; q?: string; page?: number }) => {
+    const params: Record<string, string> = { tab: next.tab ?? tab };
+    const q = next.q ?? search;
+    if (q) params.q = q;
+    if (next.page && next.page > 1) params.page = String(next.page);
+    setSearchParams(params);
+    setSelected(new Set());
+  };
+
+  const handleTabChange = (nextTab: AdminTab) => {
+    setSearchInput('');
+    updateParams({ tab: nextTab, q: '' });
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParams({ q: searchInput.trim() });
+  };
+
+  const handlePageChange = (nextPage: number) => {
+    updateParams({ page: nextPage });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const rows = tab === 'posts' ? posts : tab === 'comments' ? comments : [];
+  // Ignore ticks left over from rows that are no longer shown
+  const selectedIds = rows.filter((row) => selected.has(row.id)).map((row) => row.id);
+  const allSelected = rows.length > 0 && selectedIds.length === rows.length;
+
+  const toggleRow = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelected(next);
+  };
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(rows.map((row) => row.id)));
+  };
+
+  /**
+   * Deletes the ticked rows after confirmation, then refills the page.
+   */
+  const handleBulkDelete = async () => {
+    const noun = tab === 'posts' ? 'post' : 'comment';
+    const count = selectedIds.length;
+    if (!window.confirm(`Delete ${count} ${noun}${count === 1 ? '' : 's'}? This cannot be undone.`)) return;
+
+    const action = tab === 'posts' ? deletePosts(selectedIds) : deleteComments(selectedIds);
+    try {
+      await dispatch(action).unwrap();
+      setSelected(new Set());
+      loadTab(dispatch, tab, { search, page });
+    } catch {
+      // The error is shown from the admin state
+    }
+  };
+
+  const handleRoleChange = (userId: string, role: UserRole) => {
+    dispatch(setUserRole({ userId, role }));
+  };
+
+  const renderSelectAll = () => (
+    <th className="w-10 px-4 py-3">
+      <input
+        type="checkbox"
+        checked={allSelected}
+        onChange={toggleAll}
+        aria-label="Select all on this page"
+      />
+    </th>
+  );
+
+  const renderSelectRow = (id: string) => (
+    <td className="px-4 py-3">
+      <input
+        type="checkbox"
+        checked={selected.has(id)}
+        onChange={() => toggleRow(id)}
+        aria-label="Select row"
+      />
+    </td>
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-4xl font-bold text-gray-800 mb-8">Admin</h1>
+
+      {/* Tabs */}
+      <div className="flex gap-2 mb-6 border-b border-gray-200" role="tablist">
+        {TABS.map(({ id, label }) => (
+          <button
+            key={id}
+            role="tab"
+            aria-selected={tab === id}
+            onClick={() => handleTabChange(id)}
+            className={`px-4 py-2 -mb-px border-b-2 font-medium transition-colors ${
+              tab === id
+                ? 'border-primary-600 text-primary-600'
+                : 'border-transparent text-gray-600 hover:text-gray-800'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Search and bulk actions */}
+      <div className="flex flex-col sm:flex-row gap-4 mb-6">
+        <form onSubmit={handleSearch} role="search" className="flex gap-2 flex-1">
+          <input
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder={
+              tab === 'users' ? 'Search by display name...' : tab === 'posts' ? 'Search by title...' : 'Search comment text...'
+            }
+            aria-label={`Search ${tab}`}
+            className="input flex-1"
+          />
+          <button type="submit" className="btn btn-outline">Search</button>
+        </form>
+
+        {tab !== 'users' && (
+          <button
+            onClick={handleBulkDelete}
+            disabled={selectedIds.length === 0 || loading}
+            className="btn btn-danger"
+          >
+            Delete selected{selectedIds.length > 0 && ` (${selectedIds.length})`}
+          </button>
+        )}
+      </div>
+
+      {error && <ErrorAlert message={error} onDismiss={() => dispatch(clearError())} />}
+
+      <p className="text-sm text-gray-500 mb-2">
+        {total} {total === 1 ? 'result' : 'results'}
+        {search && <> for “{search}”</>}
+      </p>
+
+      {loading && (tab === 'users' ? users : rows).length === 0 ? (
+        <LoadingSpinner message="Loading..." />
+      ) : (
+        <div className="card p-0 overflow-x-auto mb-8">
+          {/* Users */}
+          {tab === 'users' && (
+            <table className="w-full text-left text-sm">
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  <th className="px-4 py-3">User</th>
+                  <th className="px-4 py-3">Joined</th>
+                  <th className="px-4 py-3">Role</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {users.map((u) => (
+                  <tr key={u.id}>
+                    <td className="px-4 py-3">
+                      <Link to={`/u/${u.id}`} className="flex items-center gap-2 hover:text-primary-600">
+                        <Avatar profile={u} size="sm" />
+                        <span className="font-medium">{getDisplayName(u)}</span>
+                      </Link>
+                    </td>
+                    <td className="px-4 py-3 text-gray-500">{formatDate(u.created_at)}</td>
+                    <td className="px-4 py-3">
+                      {isAdmin && u.id !== user?.id ? (
+                        <select
+                          value={u.role}
+                          onChange={(e) => handleRoleChange(u.id, e.target.value as UserRole)}
+                          aria-label={`Role for ${getDisplayName(u)}`}
+                          className="input py-1"
+                        >
+                          {ROLES.map((role) => (
+                            <option key={role} value={role}>{role}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="capitalize text-gray-700">{u.role}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {/* Posts */}
+          {tab === 'posts' && (
+            <table className="w-full text-left text-sm">
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  {renderSelectAll()}
+                  <th className="px-4 py-3">Title</th>
+                  <th className="px-4 py-3">Author</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3">Created</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {posts.map((blog) => (
+                  <tr key={blog.id}>
+                    {renderSelectRow(blog.id)}
+                    <td className="px-4 py-3">
+                      <Link to={`/blog/${blog.slug}`} className="font-medium hover:text-primary-600">
+                        {blog.title}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-3">
+                      <Link to={`/u/${blog.author_id}`} className="hover:text-primary-600">
+                        {getDisplayName(blog.author)}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-3 capitalize text-gray-500">{blog.status}</td>
+                    <td className="px-4 py-3 text-gray-500">{formatDate(blog.created_at)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {/* Comments */}
+          {tab === 'comments' && (
+            <table className="w-full text-left text-sm">
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  {renderSelectAll()}
+                  <th className="px-4 py-3">Comment</th>
+                  <th className="px-4 py-3">Author</th>
+                  <th className="px-4 py-3">Post</th>
+                  <th className="px-4 py-3">Created</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {comments.map((c) => (
+                  <tr key={c.id}>
+                    {renderSelectRow(c.id)}
+                    <td className="px-4 py-3 max-w-md">
+                      <p className="line-clamp-2 text-gray-700">{c.content}</p>
+                    </td>
+                    <td className="px-4 py-3">
+                      <Link to={`/u/${c.author_id}`} className="hover:text-primary-600">
+                        {getDisplayName(c.author)}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-3">
+                      {c.blog ? (
+                        <Link to={`/blog/${c.blog.slug}`} className="hover:text-primary-600">
+                          {c.blog.title}
+                        </Link>
+                      ) : (
+                        <span className="text-gray-400">Hidden post</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-500">{formatDate(c.created_at)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {total === 0 && !loading && (
+            <p className="text-center text-gray-500 py-8">Nothing found.</p>
+          )}
+        </div>
+      )}
+
+      <Pagination
+        currentPage={currentPage}
+        totalPages={totalPages}
+        onPageChange={handlePageChange}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { supabase } from '../../lib/supabase';
+import { blogService } from '../blog/blogService';
+import { commentService } from '../comment/commentService';
+import { getCommentImages } from '../comment/commentImages';
+import { toContainsPattern } from '../../lib/likePattern';
+import type { AuthorComment, Blog, Profile, UserRole } from '../../types';
+
+const PROFILE_SELECT = 'id, display_name, avatar_url, bio, role, created_at';
+const POST_SELECT = '*, author:profiles!blogs_author_id_fkey(id, display_name, avatar_url)';
+const COMMENT_SELECT = '*, author:profiles!comments_author_id_fkey(id, display_name, avatar_url), blog:blogs(id, title, slug)';
+
+/**
+ * Service layer for the admin console.
+ * Listing is open to anyone RLS lets read; changes rely on the
+ * moderator and admin policies in 15_add_moderation_policies.sql.
+ */
+export const adminService = {
+  /**
+   * Fetches a page of users, newest first, optionally filtered by display name.
+   */
+  async fetchUsers(search: string, page: number, perPage: number) {
+    const from = (page - 1) * perPage;
+    let query = supabase
+      .from('profiles')
+      .select(PROFILE_SELECT, { count: 'exact' });
+
+    if (search) query = query.ilike('display_name', toContainsPattern(search));
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(from, from + perPage - 1);
+
+    if (error) throw error;
+    return { data: (data || []) as Profile[], count: count || 0 };
+  },
+
+  /**
+   * Fetches a page of posts, newest first, optionally filtered by title.
+   * Other authors' drafts stay hidden by RLS.
+   */
+  async fetchPosts(search: string, page: number, perPage: number) {
+    const from = (page - 1) * perPage;
+    let query = supabase
+      .from('blogs')
+      .select(POST_SELECT, { count: 'exact' });
+
+    if (search) query = query.ilike('title', toContainsPattern(search));
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(from, from + perPage - 1);
+
+    if (error) throw error;
+    return { data: (data || []) as unknown as Blog[], count: count || 0 };
+  },
+
+  /**
+   * Fetches a page of comments, newest first, optionally filtered by text.
+   */
+  async fetchComments(search: string, page: number, perPage: number) {
+    const from = (page - 1) * perPage;
+    let query = supabase
+      .from('comments')
+      .select(COMMENT_SELECT, { count: 'exact' });
+
+    if (search) query = query.ilike('content', toContainsPattern(search));
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(from, from + perPage - 1);
+
+    if (error) throw error;
+    return { data: (data || []) as unknown as AuthorComment[], count: count || 0 };
+  },
+
+  /**
+   * Assigns a role. The database only accepts this from admins.
+   */
+  async setUserRole(userId: string, role: UserRole): Promise<Profile> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .update({ role, updated_at: new Date().toISOString() })
+      .eq('id', userId)
+      .select(PROFILE_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data as Profile;
+  },
+
+  /**
+   * Deletes several posts along with their storage images.
+   * @returns The IDs that were deleted (RLS silently skips the rest).
+   */
+  async deletePosts(ids: string[]): Promise<string[]> {
+    for (const id of ids) {
+      await blogService.cleanupBlogAssets(id);
+    }
+
+    const { data, error } = await supabase
+      .from('blogs')
+      .delete()
+      .in('id', ids)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).map((blog) => blog.id);
+  },
+
+  /**
+   * Deletes several comments and their attached images.
+   * Comments with replies are left as "[deleted]" placeholders, as on the post page.
+   * @returns The IDs that were deleted or blanked.
+   */
+  async deleteComments(ids: string[]): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('comments')
+      .select('id, image_url, image_urls')
+      .in('id', ids);
+
+    if (error) throw error;
+
+    const removed: string[] = [];
+    for (const comment of data || []) {
+      const { id } = await commentService.deleteComment(comment.id, getCommentImages(comment));
+      removed.push(id);
+    }
+    return removed;
+  },
+};
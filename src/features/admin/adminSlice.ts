@@ -0,0 +1,106 @@
+import { createSlice } from '@reduxjs/toolkit';
+import type { AdminState } from '../../types';
+import * as thunks from './adminThunks';
+
+// Re-export thunks so components can import them from the slice file
+export * from './adminThunks';
+
+const initialState: AdminState = {
+  users: [],
+  posts: [],
+  comments: [],
+  total: 0,
+  loading: false,
+  error: null,
+  totalPages: 1,
+  currentPage: 1,
+};
+
+/**
+ * Redux Slice for the admin console.
+ */
+const adminSlice = createSlice({
+  name: 'admin',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    const handlePending = (state: AdminState) => {
+      state.loading = true;
+      state.error = null;
+    };
+
+    const handleRejected = (state: AdminState, action: { payload: unknown }) => {
+      state.loading = false;
+      state.error = action.payload as string;
+    };
+
+    builder
+      // Users
+      .addCase(thunks.fetchAdminUsers.pending, handlePending)
+      .addCase(thunks.fetchAdminUsers.fulfilled, (state, action) => {
+        state.loading = false;
+        state.users = action.payload.users;
+        state.total = action.payload.total;
+        state.totalPages = action.payload.totalPages;
+        state.currentPage = action.payload.currentPage;
+      })
+      .addCase(thunks.fetchAdminUsers.rejected, handleRejected)
+
+      // Posts
+      .addCase(thunks.fetchAdminPosts.pending, handlePending)
+      .addCase(thunks.fetchAdminPosts.fulfilled, (state, action) => {
+        state.loading = false;
+        state.posts = action.payload.posts;
+        state.total = action.payload.total;
+        state.totalPages = action.payload.totalPages;
+        state.currentPage = action.payload.currentPage;
+      })
+      .addCase(thunks.fetchAdminPosts.rejected, handleRejected)
+
+      // Comments
+      .addCase(thunks.fetchAdminComments.pending, handlePending)
+      .addCase(thunks.fetchAdminComments.fulfilled, (state, action) => {
+        state.loading = false;
+        state.comments = action.payload.comments;
+        state.total = action.payload.total;
+        state.totalPages = action.payload.totalPages;
+        state.currentPage = action.payload.currentPage;
+      })
+      .addCase(thunks.fetchAdminComments.rejected, handleRejected)
+
+      // Role assignment (no loading flag: only the changed row updates)
+      .addCase(thunks.setUserRole.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(thunks.setUserRole.fulfilled, (state, action) => {
+        state.users = state.users.map((u) => (u.id === action.payload.id ? action.payload : u));
+      })
+      .addCase(thunks.setUserRole.rejected, handleRejected)
+
+      // Bulk delete
+      .addCase(thunks.deletePosts.pending, handlePending)
+      .addCase(thunks.deletePosts.fulfilled, (state, action) => {
+        const deleted = new Set(action.payload);
+        state.loading = false;
+        state.posts = state.posts.filter((b) => !deleted.has(b.id));
+        state.total -= deleted.size;
+      })
+      .addCase(thunks.deletePosts.rejected, handleRejected)
+
+      .addCase(thunks.deleteComments.pending, handlePending)
+      .addCase(thunks.deleteComments.fulfilled, (state, action) => {
+        const deleted = new Set(action.payload);
+        state.loading = false;
+        state.comments = state.comments.filter((c) => !deleted.has(c.id));
+        state.total -= deleted.size;
+      })
+      .addCase(thunks.deleteComments.rejected, handleRejected);
+  },
+});
+
+export const { clearError } = adminSlice.actions;
+export default adminSlice.reducer;
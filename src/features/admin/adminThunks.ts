@@ -0,0 +1,105 @@
+import { createAsyncThunk } from '@reduxjs/toolkit';
+import { adminService } from './adminService';
+import type { UserRole } from '../../types';
+
+const ITEMS_PER_PAGE = 20;
+
+/** Arguments shared by the admin list thunks */
+interface AdminListArgs {
+  search?: string;
+  page?: number;
+}
+
+/** Converts a row count into page info for the slice */
+const toPageInfo = (count: number, page: number) => ({
+  total: count,
+  totalPages: Math.max(1, Math.ceil(count / ITEMS_PER_PAGE)),
+  currentPage: page,
+});
+
+/**
+ * Thunk to fetch a page of users for the admin console.
+ */
+export const fetchAdminUsers = createAsyncThunk(
+  'admin/fetchUsers',
+  async ({ search = '', page = 1 }: AdminListArgs, { rejectWithValue }) => {
+    try {
+      const { data, count } = await adminService.fetchUsers(search, page, ITEMS_PER_PAGE);
+      return { users: data, ...toPageInfo(count, page) };
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+/**
+ * Thunk to fetch a page of posts for the admin console.
+ */
+export const fetchAdminPosts = createAsyncThunk(
+  'admin/fetchPosts',
+  async ({ search = '', page = 1 }: AdminListArgs, { rejectWithValue }) => {
+    try {
+      const { data, count } = await adminService.fetchPosts(search, page, ITEMS_PER_PAGE);
+      return { posts: data, ...toPageInfo(count, page) };
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+/**
+ * Thunk to fetch a page of comments for the admin console.
+ */
+export const fetchAdminComments = createAsyncThunk(
+  'admin/fetchComments',
+  async ({ search = '', page = 1 }: AdminListArgs, { rejectWithValue }) => {
+    try {
+      const { data, count } = await adminService.fetchComments(search, page, ITEMS_PER_PAGE);
+      return { comments: data, ...toPageInfo(count, page) };
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+/**
+ * Thunk to change a user's role (admins only).
+ */
+export const setUserRole = createAsyncThunk(
+  'admin/setUserRole',
+  async ({ userId, role }: { userId: string; role: UserRole }, { rejectWithValue }) => {
+    try {
+      return await adminService.setUserRole(userId, role);
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+/**
+ * Thunk to delete the selected posts and their images.
+ */
+export const deletePosts = createAsyncThunk(
+  'admin/deletePosts',
+  async (ids: string[], { rejectWithValue }) => {
+    try {
+      return await adminService.deletePosts(ids);
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+/**
+ * Thunk to delete the selected comments and their images.
+ */
+export const deleteComments = createAsyncThunk(
+  'admin/deleteComments',
+  async (ids: string[], { rejectWithValue }) => {
+    try {
+      return await adminService.deleteComments(ids);
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
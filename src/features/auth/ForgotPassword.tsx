@@ -0,0 +1,108 @@
+import { useState, useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { Link } from 'react-router-dom';
+import type { AppDispatch, RootState } from '../../app/store';
+import { requestPasswordReset, clearError } from './authSlice';
+import ErrorAlert from '../blog/components/ErrorAlert';
+
+/**
+ * ForgotPassword Component
+ * * * Asks for an email address and sends a password recovery link to it.
+ * * FEATURES:
+ * - Same confirmation whether or not the address has an account, so it can't be used to probe for users.
+ * - The emailed link opens /reset-password.
+ * - Error cleanup on unmount, like the Login and Register pages.
+ */
+export default function ForgotPassword() {
+  // --- LOCAL STATE ---
+  /** @type {string} Email address input */
+  const [email, setEmail] = useState('');
+  /** @type {string | null} Address the link was sent to, once sent */
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const dispatch = useDispatch<AppDispatch>();
+  const { loading, error } = useSelector((state: RootState) => state.auth);
+
+  useEffect(() => {
+    return () => {
+      dispatch(clearError());
+    };
+  }, [dispatch]);
+
+  /**
+   * Requests the recovery email and switches to the confirmation message.
+   * @param {React.FormEvent} e - Form event object.
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await dispatch(requestPasswordReset({ email })).unwrap();
+      setSentTo(email);
+    } catch {
+      // The error is shown from the auth state
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 to-secondary-50 flex items-center justify-center p-4">
+      <div className="card max-w-md w-full">
+        {sentTo ? (
+          <div className="text-center">
+            <h1 className="text-3xl font-bold text-gray-800 mb-4">Check your email</h1>
+            <p className="text-gray-600 mb-6">
+              If an account exists for <span className="font-semibold text-gray-800">{sentTo}</span>, we sent
+              it a link to choose a new password.
+            </p>
+            <Link to="/login" className="btn btn-primary w-full">
+              Back to Login
+            </Link>
+          </div>
+        ) : (
+          <>
+            <div className="text-center mb-8">
+              <h1 className="text-3xl font-bold text-gray-800 mb-2">Forgot Password</h1>
+              <p className="text-gray-600">Enter your email and we'll send you a reset link</p>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label htmlFor="email" className="label">
+                  Email Address
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="input"
+                  placeholder="you@example.com"
+                />
+              </div>
+
+              {/* Error Message */}
+              {error && <ErrorAlert message={error} />}
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="btn btn-primary w-full text-lg"
+              >
+                {loading ? 'Sending...' : 'Send Reset Link'}
+              </button>
+            </form>
+
+            <div className="mt-6 text-center">
+              <p className="text-gray-600">
+                Remembered it?{' '}
+                <Link to="/login" className="link font-semibold">
+                  Login here
+                </Link>
+              </p>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,20 @@
 import { useState, useEffect } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
 import type { AppDispatch, RootState } from '../../app/store';
 import { login, clearError } from './authSlice';
 import ErrorAlert from '../blog/components/ErrorAlert';
+import { getReturnTo } from '../../lib/returnTo';
 
 /**
  * Login Component
  * * * Provides a form for users to authenticate using email and password.
  * * FEATURES:
  * - Local state management for form inputs.
- * - Automatic redirect to home page if user is already logged in.
+ * - Automatic redirect once logged in: back to the page that required it, else home.
  * - Error cleanup on component unmount (leaving the page).
  * - Visual loading states and error messaging.
+ * - "Forgot password?" link to the reset flow.
  */
 export default function Login() {
   // --- LOCAL STATE ---
@@ -23,6 +25,9 @@ export default function Login() {
   
   const dispatch = useDispatch<AppDispatch>();
   const navigate = useNavigate();
+  const location = useLocation();
+  /** Where to go after logging in (from ProtectedRoute state or `?next=`) */
+  const returnTo = getReturnTo(location);
 
 
   /** * Global Auth State
@@ -35,13 +40,13 @@ export default function Login() {
   /**
    * REDIRECT EFFECT
    * Watches the 'user' state. If a user exists (successfully logged in),
-   * they are automatically moved to the home page.
+   * they are automatically moved to where they were headed.
    */
   useEffect(() => {
     if (user) {
-      navigate('/');
+      navigate(returnTo, { replace: true });
     }
-  }, [user, navigate]);
+  }, [user, navigate, returnTo]);
 
   /**
    * CLEANUP EFFECT
@@ -88,9 +93,14 @@ export default function Login() {
           </div>
 
           <div>
-            <label htmlFor="password" className="label">
-              Password
-            </label>
+            <div className="flex justify-between items-baseline">
+              <label htmlFor="password" className="label">
+                Password
+              </label>
+              <Link to="/forgot-password" className="link text-sm">
+                Forgot password?
+              </Link>
+            </div>
             <input
               id="password"
               type="password"
@@ -127,7 +137,7 @@ export default function Login() {
         <div className="mt-6 text-center">
           <p className="text-gray-600">
             Don't have an account?{' '}
-            <Link to="/register" className="link font-semibold">
+            <Link to={{ pathname: '/register', search: location.search }} state={location.state} className="link font-semibold">
               Register here
             </Link>
           </p>
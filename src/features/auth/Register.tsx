@@ -1,9 +1,10 @@
 import { useState, useEffect } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
 import type { AppDispatch, RootState } from '../../app/store';
-import { register, clearError } from './authSlice';
+import { register, resendConfirmation, clearError, clearPendingEmail } from './authSlice';
 import ErrorAlert from '../blog/components/ErrorAlert';
+import { getReturnTo } from '../../lib/returnTo';
 
 /**
  * Register Component
@@ -12,6 +13,7 @@ import ErrorAlert from '../blog/components/ErrorAlert';
  * - Client-side validation (password matching and length).
  * - Synchronization with Redux auth state.
  * - Automatic redirect upon successful account creation.
+ * - "Check your email" screen when the account must be confirmed first.
  * - Cleanup logic to prevent error messages from "bleeding" into other pages.
  */
 export default function Register() {
@@ -22,25 +24,31 @@ export default function Register() {
   const [password, setPassword] = useState('');
   /** @type {string} Second password input for verification */
   const [confirmPassword, setConfirmPassword] = useState('');
+  /** @type {boolean} True once the confirmation email has been sent again */
+  const [resent, setResent] = useState(false);
   
   const dispatch = useDispatch<AppDispatch>();
   const navigate = useNavigate();
+  const location = useLocation();
+  /** Where to go once registered (from ProtectedRoute state or `?next=`) */
+  const returnTo = getReturnTo(location);
 
   /** * Global Auth State
    * Listening for 'user' to handle successful registration 
    * and 'loading' to manage the UI button state.
+   * 'pendingEmail' is set when signup succeeded but needs email confirmation.
    */
-  const { user, loading, error } = useSelector((state: RootState) => state.auth);
+  const { user, pendingEmail, loading, error } = useSelector((state: RootState) => state.auth);
   /**
    * SUCCESS REDIRECT
    * If the register thunk succeeds and a user object is created,
-   * push the user to the homepage.
+   * push the user on to where they were headed (the homepage by default).
    */
   useEffect(() => {
     if (user) {
-      navigate('/');
+      navigate(returnTo, { replace: true });
     }
-  }, [user, navigate]);
+  }, [user, navigate, returnTo]);
   /**
    * ERROR CLEANUP
    * Removes any authentication error messages from the global state
@@ -49,6 +57,7 @@ export default function Register() {
   useEffect(() => {
     return () => {
       dispatch(clearError());
+      dispatch(clearPendingEmail());
     };
   }, [dispatch]);
   /**
@@ -69,9 +78,57 @@ export default function Register() {
       return;
     }
 
+    setResent(false);
     dispatch(register({ email, password }));
   };
 
+  /**
+   * Sends the confirmation email again for the pending address.
+   */
+  const handleResend = async () => {
+    if (!pendingEmail) return;
+    try {
+      await dispatch(resendConfirmation({ email: pendingEmail })).unwrap();
+      setResent(true);
+    } catch {
+      // The error is shown from the auth state
+    }
+  };
+
+  if (pendingEmail) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-primary-50 to-secondary-50 flex items-center justify-center p-4">
+        <div className="card max-w-md w-full text-center">
+          <h1 className="text-3xl font-bold text-gray-800 mb-4">Check your email</h1>
+          <p className="text-gray-600 mb-2">
+            We sent a confirmation link to <span className="font-semibold text-gray-800">{pendingEmail}</span>.
+          </p>
+          <p className="text-gray-600 mb-6">
+            Open it to activate your account, then log in.
+          </p>
+
+          {error && <ErrorAlert message={error} />}
+          {resent && <p className="text-sm text-green-700 mb-4">Confirmation email sent again.</p>}
+
+          <div className="flex flex-col gap-3">
+            <Link to={{ pathname: '/login', search: location.search }} state={location.state} className="btn btn-primary">
+              Go to Login
+            </Link>
+            <button onClick={handleResend} disabled={loading} className="btn btn-outline">
+              {loading ? 'Sending...' : 'Resend email'}
+            </button>
+            <button
+              onClick={() => dispatch(clearPendingEmail())}
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Use a different email
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary-50 to-secondary-50 flex items-center justify-center p-4">
       <div className="card max-w-md w-full">
@@ -154,7 +211,7 @@ export default function Register() {
         <div className="mt-6 text-center">
           <p className="text-gray-600">
             Already have an account?{' '}
-            <Link to="/login" className="link font-semibold">
+            <Link to={{ pathname: '/login', search: location.search }} state={location.state} className="link font-semibold">
               Login here
             </Link>
           </p>
@@ -0,0 +1,156 @@
+import { useState, useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { useNavigate, Link } from 'react-router-dom';
+import type { AppDispatch, RootState } from '../../app/store';
+import { resetPassword, clearError } from './authSlice';
+import ErrorAlert from '../blog/components/ErrorAlert';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+/**
+ * Reads the error Supabase puts in the redirect URL when a recovery
+ * link is expired or was already used.
+ */
+function getLinkError(): string | null {
+  const params = new URLSearchParams(window.location.hash.slice(1) || window.location.search);
+  return params.get('error_description');
+}
+
+/**
+ * ResetPassword Component
+ * * * Landing page for the emailed recovery link.
+ * * FEATURES:
+ * - Token Handling: The Supabase client exchanges the token in the URL for a session on startup.
+ * - Invalid Links: Expired or reused links show the reason and a way to request a new one.
+ * - Sets the new password, then continues to the home page signed in.
+ */
+export default function ResetPassword() {
+  // --- LOCAL STATE ---
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  /** @type {string | null} Client-side validation message */
+  const [formError, setFormError] = useState<string | null>(null);
+  /** @type {string | null} Why the link could not be used, read once from the URL */
+  const [linkError] = useState(getLinkError);
+
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+
+  /**
+   * 'user' is the recovery session opened by the link;
+   * 'loading' is also true while that session is being checked on startup.
+   */
+  const { user, loading, error } = useSelector((state: RootState) => state.auth);
+
+  useEffect(() => {
+    return () => {
+      dispatch(clearError());
+    };
+  }, [dispatch]);
+
+  /**
+   * Validates the two fields, then saves the new password.
+   * @param {React.FormEvent} e - Form event object.
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setFormError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setFormError('Passwords do not match.');
+      return;
+    }
+
+    setFormError(null);
+    try {
+      await dispatch(resetPassword({ password })).unwrap();
+      navigate('/', { replace: true });
+    } catch {
+      // The error is shown from the auth state
+    }
+  };
+
+  if (loading && !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-600 font-medium">Checking your reset link...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 to-secondary-50 flex items-center justify-center p-4">
+      <div className="card max-w-md w-full">
+        {!user ? (
+          <div className="text-center">
+            <h1 className="text-3xl font-bold text-gray-800 mb-4">Link not valid</h1>
+            <p className="text-gray-600 mb-6">
+              {linkError || 'This password reset link is invalid or has expired.'}
+            </p>
+            <Link to="/forgot-password" className="btn btn-primary w-full">
+              Request a New Link
+            </Link>
+          </div>
+        ) : (
+          <>
+            <div className="text-center mb-8">
+              <h1 className="text-3xl font-bold text-gray-800 mb-2">Choose a New Password</h1>
+              <p className="text-gray-600">For {user.email}</p>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label htmlFor="password" className="label">
+                  New Password
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  minLength={MIN_PASSWORD_LENGTH}
+                  autoComplete="new-password"
+                  className="input"
+                  placeholder="••••••••"
+                />
+                <p className="text-xs text-gray-500 mt-1">Minimum {MIN_PASSWORD_LENGTH} characters</p>
+              </div>
+
+              <div>
+                <label htmlFor="confirmPassword" className="label">
+                  Confirm New Password
+                </label>
+                <input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  minLength={MIN_PASSWORD_LENGTH}
+                  autoComplete="new-password"
+                  className="input"
+                  placeholder="••••••••"
+                />
+              </div>
+
+              {/* Error Message */}
+              {(formError || error) && <ErrorAlert message={(formError || error)!} />}
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="btn btn-primary w-full text-lg"
+              >
+                {loading ? 'Saving...' : 'Set New Password'}
+              </button>
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { createAsyncThunk, createSlice } from "@reduxjs/toolkit";
 import type { PayloadAction } from "@reduxjs/toolkit";
-import type { AuthState, User } from "../../types";
+import type { AuthState, Profile, ProfileInput, User } from "../../types";
 import { supabase } from "../../lib/supabase";
+import { profileService } from "../profile/profileService";
 
 /**
  * Initial state for the authentication slice.
@@ -9,10 +10,44 @@ import { supabase } from "../../lib/supabase";
  */
 const initialState: AuthState = {
     user: null,
+    profile: null,
+    pendingEmail: null,
+    expiredEmail: null,
     loading: false,
     error: null
 }
 
+/**
+ * Signed-in user plus their public profile, as returned by the auth thunks.
+ */
+interface SessionPayload {
+    user: User;
+    profile: Profile | null;
+}
+
+/**
+ * Builds the session payload for a Supabase user, loading their profile.
+ * A missing or unreadable profile is not fatal: the UI falls back to the email.
+ */
+async function toSessionPayload(authUser: { id: string; email?: string }): Promise<SessionPayload> {
+    const profile = await profileService.fetchProfile(authUser.id).catch(() => null);
+    return {
+        user: { id: authUser.id, email: authUser.email! },
+        profile,
+    };
+}
+
+/**
+ * Result of a signup: either a live session, or the address that must be
+ * confirmed first when the project requires email confirmation.
+ */
+type RegisterPayload = SessionPayload | { pendingEmail: string };
+
+/**
+ * Absolute URL Supabase should send users back to from an auth email.
+ */
+const authRedirectUrl = (path: string) => `${window.location.origin}${path}`;
+
 /**
  * checkAuth Thunk
  * * Runs on app startup to see if a user has a valid session saved in the browser.
@@ -24,10 +59,7 @@ export const checkAuth = createAsyncThunk(
         try {
             const { data:{ session } } = await supabase.auth.getSession();
             if (session?.user){
-                return {
-                    id: session.user.id,
-                    email: session.user.email!,
-                };
+                return await toSessionPayload(session.user);
             }
             return null;
         } catch (error: any) {
@@ -36,9 +68,35 @@ export const checkAuth = createAsyncThunk(
     }
 );
 
+/**
+ * syncSession Thunk
+ * * Applies a session change reported by `supabase.auth.onAuthStateChange`
+ * * (token refresh, sign-in or sign-out in another tab, expiry).
+ * * The profile is only reloaded when a different user signs in.
+ * @param authUser - The session's user, or null when the session ended.
+ */
+export const syncSession = createAsyncThunk(
+    'auth/syncSession',
+    async (authUser: { id: string; email?: string } | null, { getState, rejectWithValue }) => {
+        try {
+            if (!authUser) return null;
+
+            const { user, profile } = (getState() as { auth: AuthState }).auth;
+            if (user?.id === authUser.id) {
+                return { user: { id: authUser.id, email: authUser.email! }, profile };
+            }
+            return await toSessionPayload(authUser);
+        } catch (error) {
+            return rejectWithValue((error as Error).message);
+        }
+    }
+);
+
 /**
  * register Thunk
  * * Creates a new user account in Supabase using email and password.
+ * * When email confirmation is on, Supabase returns no session; the user
+ * * must follow the emailed link before they can log in.
  * @param {email, password} - User credentials.
  */
 export const register = createAsyncThunk(
@@ -48,15 +106,17 @@ export const register = createAsyncThunk(
       const { data, error } = await supabase.auth.signUp({
         email,
         password,
+        options: { emailRedirectTo: authRedirectUrl('/') },
       });
 
       if (error) throw error;
 
+      if (data.session?.user) {
+        return await toSessionPayload(data.session.user) as RegisterPayload;
+      }
+
       if (data.user) {
-        return {
-          id: data.user.id,
-          email: data.user.email!,
-        };
+        return { pendingEmail: email } as RegisterPayload;
       }
 
       throw new Error('Registration failed');
@@ -66,6 +126,27 @@ export const register = createAsyncThunk(
   }
 );
 
+/**
+ * resendConfirmation Thunk
+ * * Sends the signup confirmation email again.
+ * @param {email} - The address awaiting confirmation.
+ */
+export const resendConfirmation = createAsyncThunk(
+  'auth/resendConfirmation',
+  async ({ email }: { email: string }, { rejectWithValue }) => {
+    try {
+      const { error } = await supabase.auth.resend({
+        type: 'signup',
+        email,
+        options: { emailRedirectTo: authRedirectUrl('/') },
+      });
+      if (error) throw error;
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
 /**
  * login Thunk
  * * Authenticates an existing user with Supabase.
@@ -83,10 +164,7 @@ export const login = createAsyncThunk(
       if (error) throw error;
 
       if (data.user) {
-        return {
-          id: data.user.id,
-          email: data.user.email!,
-        };
+        return await toSessionPayload(data.user);
       }
 
       throw new Error('Login failed');
@@ -96,6 +174,46 @@ export const login = createAsyncThunk(
   }
 );
 
+/**
+ * requestPasswordReset Thunk
+ * * Emails a recovery link that opens the /reset-password page.
+ * * Supabase answers the same whether or not the address has an account.
+ * @param {email} - The address to send the link to.
+ */
+export const requestPasswordReset = createAsyncThunk(
+  'auth/requestPasswordReset',
+  async ({ email }: { email: string }, { rejectWithValue }) => {
+    try {
+      const { error } = await supabase.auth.resetPasswordForEmail(email, {
+        redirectTo: authRedirectUrl('/reset-password'),
+      });
+      if (error) throw error;
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+/**
+ * resetPassword Thunk
+ * * Sets a new password using the recovery session opened by the emailed link.
+ * * The Supabase client reads the recovery token from the URL on startup,
+ * * so by the time this runs the user is already signed in.
+ * @param {password} - The new password.
+ */
+export const resetPassword = createAsyncThunk(
+  'auth/resetPassword',
+  async ({ password }: { password: string }, { rejectWithValue }) => {
+    try {
+      const { data, error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+      return await toSessionPayload(data.user);
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
 /**
  * logout Thunk
  * * Ends the Supabase session and signs the user out of the application.
@@ -112,6 +230,62 @@ export const logout = createAsyncThunk(
   }
 );
 
+/**
+ * updateProfile Thunk
+ * * Saves the signed-in user's display name, bio and avatar from the settings page.
+ * * A new avatar is cropped to a square and uploaded; the one it replaces is deleted.
+ * @param {display_name, bio, avatarFile, removeAvatar} - New values; `avatarFile` wins over `removeAvatar`.
+ */
+export const updateProfile = createAsyncThunk(
+  'auth/updateProfile',
+  async (
+    { display_name, bio, avatarFile, removeAvatar = false }:
+      Pick<ProfileInput, 'display_name' | 'bio'> & { avatarFile?: File | null; removeAvatar?: boolean },
+    { getState, rejectWithValue }
+  ) => {
+    try {
+      const { user, profile } = (getState() as { auth: AuthState }).auth;
+      if (!user) throw new Error('You must be logged in to update your profile');
+
+      const updates: Partial<ProfileInput> = { display_name, bio };
+      if (avatarFile) {
+        updates.avatar_url = await profileService.uploadAvatar(user.id, avatarFile);
+      } else if (removeAvatar) {
+        updates.avatar_url = null;
+      }
+
+      const updated = await profileService.updateProfile(user.id, updates);
+
+      // Only clean up the old avatar once the profile no longer points at it
+      const oldAvatar = profile?.avatar_url;
+      if (oldAvatar && 'avatar_url' in updates && oldAvatar !== updated.avatar_url) {
+        await profileService.deleteAvatar(oldAvatar);
+      }
+
+      return updated;
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+/**
+ * changePassword Thunk
+ * * Sets a new password for the signed-in user through Supabase Auth.
+ * @param {password} - The new password.
+ */
+export const changePassword = createAsyncThunk(
+  'auth/changePassword',
+  async ({ password }: { password: string }, { rejectWithValue }) => {
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
 /**
  * Auth Slice
  * * Handles the synchronous and asynchronous state updates for authentication.
@@ -127,6 +301,18 @@ const authSlice = createSlice({
         clearError: (state) => {
             state.error=null;
         },
+        /**
+         * Forgets the address awaiting confirmation, so Register shows its form again.
+         */
+        clearPendingEmail: (state) => {
+            state.pendingEmail = null;
+        },
+        /**
+         * Gives up on the re-login prompt, e.g. when the user chooses to leave.
+         */
+        clearExpiredSession: (state) => {
+            state.expiredEmail = null;
+        },
     },
     extraReducers: (builder) => {
         /**
@@ -141,9 +327,10 @@ const authSlice = createSlice({
         builder.addCase(checkAuth.pending, (state) => {
             state.loading=true;
         });
-        builder.addCase(checkAuth.fulfilled, (state, action: PayloadAction<User | null>) => {
+        builder.addCase(checkAuth.fulfilled, (state, action: PayloadAction<SessionPayload | null>) => {
             state.loading = false;
-            state.user = action.payload;
+            state.user = action.payload?.user ?? null;
+            state.profile = action.payload?.profile ?? null;
         });
         builder.addCase(checkAuth.rejected, (state, action) => {
             state.loading = false;
@@ -154,10 +341,16 @@ const authSlice = createSlice({
         builder.addCase(register.pending, (state) => {
             state.loading = true;
             state.error = null;
+            state.pendingEmail = null;
         });
-        builder.addCase(register.fulfilled, (state, action: PayloadAction<User>) => {
+        builder.addCase(register.fulfilled, (state, action: PayloadAction<RegisterPayload>) => {
             state.loading = false;
-            state.user = action.payload;
+            if ('pendingEmail' in action.payload) {
+                state.pendingEmail = action.payload.pendingEmail;
+            } else {
+                state.user = action.payload.user;
+                state.profile = action.payload.profile;
+            }
         });
         builder.addCase(register.rejected, (state, action) => {
             state.loading = false;
@@ -169,24 +362,97 @@ const authSlice = createSlice({
             state.loading = true;
             state.error = null;
         });
-        builder.addCase(login.fulfilled, (state, action: PayloadAction<User>) => {
+        builder.addCase(login.fulfilled, (state, action: PayloadAction<SessionPayload>) => {
             state.loading = false;
-            state.user = action.payload;
+            state.user = action.payload.user;
+            state.profile = action.payload.profile;
+            state.expiredEmail = null;
         });
         builder.addCase(login.rejected, (state, action) => {
             state.loading = false;
             state.error = action.payload as string;
         });
 
+        // Resend confirmation email
+        builder.addCase(resendConfirmation.pending, (state) => {
+            state.loading = true;
+            state.error = null;
+        });
+        builder.addCase(resendConfirmation.fulfilled, (state) => {
+            state.loading = false;
+        });
+        builder.addCase(resendConfirmation.rejected, (state, action) => {
+            state.loading = false;
+            state.error = action.payload as string;
+        });
+
+        // Request password reset email
+        builder.addCase(requestPasswordReset.pending, (state) => {
+            state.loading = true;
+            state.error = null;
+        });
+        builder.addCase(requestPasswordReset.fulfilled, (state) => {
+            state.loading = false;
+        });
+        builder.addCase(requestPasswordReset.rejected, (state, action) => {
+            state.loading = false;
+            state.error = action.payload as string;
+        });
+
+        // Set new password from recovery link
+        builder.addCase(resetPassword.pending, (state) => {
+            state.loading = true;
+            state.error = null;
+        });
+        builder.addCase(resetPassword.fulfilled, (state, action: PayloadAction<SessionPayload>) => {
+            state.loading = false;
+            state.user = action.payload.user;
+            state.profile = action.payload.profile;
+        });
+        builder.addCase(resetPassword.rejected, (state, action) => {
+            state.loading = false;
+            state.error = action.payload as string;
+        });
+
+        // Session changes from onAuthStateChange
+        // (no loading flag: ProtectedRoute would unmount the page being edited)
+        builder.addCase(syncSession.fulfilled, (state, action: PayloadAction<SessionPayload | null>) => {
+            if (action.payload) {
+                state.user = action.payload.user;
+                state.profile = action.payload.profile;
+                state.expiredEmail = null;
+            } else {
+                // Still signed in here means we didn't log out ourselves:
+                // the session expired or was ended in another tab
+                if (state.user) state.expiredEmail = state.user.email;
+                state.user = null;
+                state.profile = null;
+            }
+        });
+
         // Logout
+        // Signed out locally right away, so the SIGNED_OUT event that
+        // follows isn't mistaken for an expired session
+        builder.addCase(logout.pending, (state) => {
+            state.user = null;
+            state.profile = null;
+            state.expiredEmail = null;
+        });
         builder.addCase(logout.fulfilled, (state) => {
             state.user = null;
+            state.profile = null;
             state.loading = false;
             state.error = null;
         });
 
+        // Update profile
+        // (no global loading flag: ProtectedRoute would unmount the settings page)
+        builder.addCase(updateProfile.fulfilled, (state, action: PayloadAction<Profile>) => {
+            state.profile = action.payload;
+        });
+
     }
 });
 
-export const { clearError } = authSlice.actions;
+export const { clearError, clearPendingEmail, clearExpiredSession } = authSlice.actions;
 export default authSlice.reducer;
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { useEffect } from 'react';
+import { useDispatch } from 'react-redux';
+import type { AuthChangeEvent } from '@supabase/supabase-js';
+import type { AppDispatch } from '../../app/store';
+import { supabase } from '../../lib/supabase';
+import { syncSession } from './authSlice';
+
+/** Events that change who is signed in; INITIAL_SESSION is handled by checkAuth */
+const SYNCED_EVENTS: AuthChangeEvent[] = [
+  'SIGNED_IN',
+  'SIGNED_OUT',
+  'TOKEN_REFRESHED',
+  'USER_UPDATED',
+  'PASSWORD_RECOVERY',
+];
+
+/**
+ * Custom hook that keeps `state.auth` in step with the Supabase session.
+ * - Token refreshes and email changes update the stored user.
+ * - Signing in or out in another tab is picked up here too.
+ * - A session that ends on its own sets `expiredEmail` for the re-login prompt.
+ */
+export function useAuthSync() {
+  const dispatch = useDispatch<AppDispatch>();
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (!SYNCED_EVENTS.includes(event)) return;
+      // Supabase calls made inside this callback deadlock, so load the profile afterwards
+      setTimeout(() => {
+        dispatch(syncSession(session?.user ?? null));
+      }, 0);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [dispatch]);
+}
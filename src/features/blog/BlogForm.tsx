@@ -1,9 +1,18 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useParams, Link } from 'react-router-dom';
 import type { AppDispatch, RootState } from '../../app/store';
-import { createBlog, updateBlog, clearError } from './blogSlice';
-import { uploadImage, deleteImage, validateImageFile, createPreviewUrl, revokePreviewUrl } from '../../lib/imageUpload';
+import type { Blog, BlogStatus, ContentBlock } from '../../types';
+import { createBlog, updateBlog, fetchBlogById, clearError } from './blogSlice';
+import { uploadImage, createPreviewUrl, revokePreviewUrl } from '../../lib/imageUpload';
+import { getLocalDraftKey } from '../../lib/draftStorage';
+import { blocksToPlainText, createTextBlock, getBlockImageUrls, getBlogBlocks } from './contentBlocks';
+import { isPublished, toDateTimeLocalValue } from './blogStatus';
+import { useDraftAutosave } from './useDraftAutosave';
+import BlockEditor, { type EditorBlock } from './components/BlockEditor';
+import TagInput from './components/TagInput';
+import LoadingSpinner from './components/LoadingSpinner';
+import ErrorAlert from './components/ErrorAlert';
 
 
 /**
@@ -14,12 +23,27 @@ interface BlogFormProps {
   mode: 'create' | 'edit';
 }
 
+/**
+ * Reason the post addressed by `/edit/:id` could not be loaded.
+ * Keyed by post ID so a stale failure never leaks onto another post.
+ */
+interface LoadFailure {
+  id: string;
+  status: 'not-found' | 'error';
+  message: string | null;
+}
+
 /**
  * BlogForm Component
- * * * A versatile form used to capture blog titles and content.
+ * * * A versatile form used to capture blog titles and block-based content.
  * * FEATURES:
  * - Hybrid Mode: Automatically switches labels and logic based on the 'mode' prop.
- * - Prefilling: If in 'edit' mode, it populates fields with existing data from the store.
+ * - Prefilling: If in 'edit' mode, it loads the post named by the `:id` URL param from the server.
+ * - Ownership: Refuses to show the edit form to anyone but the post's author.
+ * - Block Editor: The body is a list of text and image blocks (see BlockEditor).
+ * - Tags: Chip input with autocomplete from existing tags (see TagInput).
+ * - Publishing: Save as a draft, publish now, or schedule for a later time.
+ * - Autosave: Keeps unsaved changes in IndexedDB and offers to restore them (see useDraftAutosave).
  * - Validation: Ensures posts meet minimum length requirements before submission.
  * - Async Handling: Waits for Redux thunks to complete before redirecting the user.
  */
@@ -27,163 +51,352 @@ export default function BlogForm({ mode }: BlogFormProps) {
 
   const dispatch = useDispatch<AppDispatch>();
   const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
 
   // --- GLOBAL STATE ---
-  const { currentBlog, loading, error } = useSelector((state: RootState) => state.blog);
+  const { loading, error } = useSelector((state: RootState) => state.blog);
   const { user } = useSelector((state: RootState) => state.auth);
 
 
+  // --- EDIT TARGET STATE ---
+  /** @type {Blog | null} The post being edited, as loaded from the server */
+  const [editingBlog, setEditingBlog] = useState<Blog | null>(null);
+  /** @type {LoadFailure | null} Set when the post could not be loaded */
+  const [loadFailure, setLoadFailure] = useState<LoadFailure | null>(null);
+
+
   // --- LOCAL FORM STATE ---
   /** @type {string} Stores the draft title */
   const [title, setTitle] = useState('');
-  /** @type {string} Stores the draft content body */
-  const [content, setContent] = useState('');
+  /** @type {EditorBlock[]} The draft post body, in display order */
+  const [blocks, setBlocks] = useState<EditorBlock[]>(() => [createTextBlock()]);
+  /** @type {string[]} Tag names attached to the post */
+  const [tags, setTags] = useState<string[]>([]);
+  /** @type {string} Publish time for the 'Schedule' action, as a datetime-local value */
+  const [scheduleAt, setScheduleAt] = useState('');
+  /** @type {BlogStatus | null} The save action in progress, used for button labels */
+  const [pendingAction, setPendingAction] = useState<BlogStatus | null>(null);
+  /** @type {boolean} True once the user has changed something not yet saved to the server */
+  const [isDirty, setIsDirty] = useState(false);
 
 
   // --- LOCAL IMAGE STATE ---
-  /** @type {File | null} The actual binary file object chosen from the user's hard drive */
-  const [selectedImage, setSelectedImage] = useState<File | null>(null);
-  /** @type {string | null} A temporary 'Object URL' created by the browser to show the user their photo instantly */
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  /** @type {string | null} The permanent web link to an image already stored in the Supabase cloud (used when editing an old post) */
-  const [existingImageUrl, setExistingImageUrl] = useState<string | null>(null);
   /** @type {string | null} Holds any error messages, like 'File too large' or 'Wrong file type' */
   const [imageError, setImageError] = useState<string | null>(null);
-  /** @type {boolean} A 'loading switch' that stays true while the image is traveling to the cloud */
+  /** @type {boolean} A 'loading switch' that stays true while images are traveling to the cloud */
   const [isUploading, setIsUploading] = useState(false);
-  /** @type {boolean} A flag to track if the user wants to delete the current image from their post */
-  const [removeImage, setRemoveImage] = useState(false);
+
+  // --- LOCAL AUTOSAVE ---
+  const {
+    recoveredDraft,
+    acceptRecoveredDraft,
+    discardRecoveredDraft,
+    clearLocalDraft,
+  } = useDraftAutosave({
+    key: user ? getLocalDraftKey(user.id, mode === 'edit' ? id : undefined) : null,
+    ready: mode === 'create' || editingBlog?.id === id,
+    serverUpdatedAt: mode === 'edit' && editingBlog ? editingBlog.updated_at : null,
+    title,
+    blocks,
+    isDirty,
+  });
+
+  /** Latest blocks, read by the unmount cleanup to free preview URLs */
+  const blocksRef = useRef(blocks);
+  useEffect(() => {
+    blocksRef.current = blocks;
+  }, [blocks]);
 
   /**
    * EDIT PREFILL EFFECT
+   * Loads the post from the server instead of relying on the store,
+   * so refreshing or opening `/edit/:id` directly still works.
    */
   useEffect(() => {
-    if (mode === 'edit' && currentBlog) {
-      setTitle(currentBlog.title);
-      setContent(currentBlog.content);
-      setExistingImageUrl(currentBlog.image_url);
+    if (mode !== 'edit' || !id) return;
 
-    }
-  }, [mode, currentBlog]);
+    const request = dispatch(fetchBlogById(id));
+    request
+      .unwrap()
+      .then((blog) => {
+        if (!blog) {
+          setLoadFailure({ id, status: 'not-found', message: null });
+          return;
+        }
+        setEditingBlog(blog);
+        setTitle(blog.title);
+        setBlocks(
+          getBlogBlocks(blog).map((block) =>
+            block.type === 'image' ? { ...block, file: null, previewUrl: null } : block
+          )
+        );
+        setTags((blog.tags || []).map((tag) => tag.name));
+        if (blog.status === 'scheduled') {
+          setScheduleAt(toDateTimeLocalValue(blog.publish_at));
+        }
+      })
+      .catch((err) => {
+        // Ignore requests cancelled by navigating away
+        if (err?.name === 'AbortError') return;
+        setLoadFailure({ id, status: 'error', message: err as string });
+      });
+
+    return () => {
+      request.abort();
+    };
+  }, [mode, id, dispatch]);
 
   /**
    * CLEANUP EFFECT
-   * Wipes any remaining erorr messages and remove image preview
+   * Wipes any remaining error messages and frees image previews on unmount
    */
   useEffect(() => {
+    const blocksAtUnmount = blocksRef;
     return () => {
       dispatch(clearError());
-      // Cleanup preview URL
-      if (imagePreview) {
-        revokePreviewUrl(imagePreview);
+      for (const block of blocksAtUnmount.current) {
+        if (block.type === 'image' && block.previewUrl) {
+          revokePreviewUrl(block.previewUrl);
+        }
       }
     };
-  }, [dispatch, imagePreview]);
+  }, [dispatch]);
 
-  /**
-   * Handles image file selection
-   */
-  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    setImageError(null);
-    
-    if (!file) return;
+  /** Title input handler that also marks the form as changed */
+  const handleTitleChange = (value: string) => {
+    setTitle(value);
+    setIsDirty(true);
+  };
 
-    // Validate file
-    const validationError = validateImageFile(file);
-    if (validationError) {
-      setImageError(validationError);
-      return;
-    }
+  /** Block editor handler that also marks the form as changed */
+  const handleBlocksChange = (next: EditorBlock[]) => {
+    setBlocks(next);
+    setIsDirty(true);
+  };
 
-    // Clear previous preview
-    if (imagePreview) {
-      revokePreviewUrl(imagePreview);
-    }
+  /** Tag input handler that also marks the form as changed */
+  const handleTagsChange = (next: string[]) => {
+    setTags(next);
+    setIsDirty(true);
+  };
 
-    // Set new image
-    setSelectedImage(file);
-    setImagePreview(createPreviewUrl(file));
-    setRemoveImage(false);
+  /**
+   * Replaces the form contents with the locally recovered draft.
+   * Files that were never uploaded get fresh preview URLs.
+   */
+  const handleRestoreDraft = () => {
+    const draft = acceptRecoveredDraft();
+    if (!draft) return;
+    for (const block of blocks) {
+      if (block.type === 'image' && block.previewUrl) revokePreviewUrl(block.previewUrl);
+    }
+    setTitle(draft.title);
+    setBlocks(
+      draft.blocks.map((block) =>
+        block.type === 'image'
+          ? { ...block, previewUrl: block.file ? createPreviewUrl(block.file) : null }
+          : block
+      )
+    );
+    setIsDirty(true);
   };
 
   /**
-   * Removes the selected or existing image
+   * Uploads pending images and converts editor blocks into the shape
+   * stored in `content_blocks`. Empty text blocks are dropped.
+   * Uploaded URLs are written back into the editor, so if the save fails
+   * a retry reuses them instead of uploading the same files again.
+   * @param {string} userId - Owner of the uploaded files.
+   * @returns {Promise<ContentBlock[]>} Blocks ready to persist.
    */
-  const handleRemoveImage = () => {
-    if (imagePreview) {
-      revokePreviewUrl(imagePreview);
+  const buildContentBlocks = async (userId: string): Promise<ContentBlock[]> => {
+    const result: ContentBlock[] = [];
+    const uploaded = new Map<string, string>();
+
+    try {
+      for (const block of blocks) {
+        if (block.type === 'text') {
+          if (block.text.trim()) {
+            result.push({ id: block.id, type: 'text', order: result.length, text: block.text, format: block.format });
+          }
+          continue;
+        }
+        let imageUrl = block.image_url;
+        if (block.file) {
+          imageUrl = await uploadImage(block.file, userId);
+          uploaded.set(block.id, imageUrl);
+        }
+        if (!imageUrl) continue;
+        result.push({
+          id: block.id,
+          type: 'image',
+          order: result.length,
+          image_url: imageUrl,
+          caption: block.caption?.trim() || null,
+        });
+      }
+    } finally {
+      // Also runs when a later upload fails, so earlier ones are not repeated
+      if (uploaded.size > 0) {
+        for (const block of blocks) {
+          if (block.type === 'image' && uploaded.has(block.id) && block.previewUrl) revokePreviewUrl(block.previewUrl);
+        }
+        setBlocks((current) =>
+          current.map((block) => {
+            const imageUrl = uploaded.get(block.id);
+            if (block.type !== 'image' || !imageUrl) return block;
+            return { ...block, image_url: imageUrl, file: null, previewUrl: null };
+          })
+        );
+      }
     }
-    setSelectedImage(null);
-    setImagePreview(null);
-    setRemoveImage(true);
-    setImageError(null);
+    return result;
   };
 
   /**
-   * Form Submission Logic
-   * * 1. Validates input length.
-   * * 2. Triggers either 'create' or 'update' thunks.
-   * * 3. Redirects to Home only if the database request is successful.
-   * @param {React.FormEvent} e - Form submission event.
+   * Save Logic
+   * * 1. Validates input length (and the schedule time when scheduling).
+   * * 2. Uploads new images and builds the block list.
+   * * 3. Triggers either 'create' or 'update' thunks with the chosen status.
+   * * 4. Redirects only if the database request is successful.
+   * *    Images dropped from the post stay in storage because older
+   * *    revisions still reference them; they are removed with the post.
+   * @param {BlogStatus} status - 'draft', 'published' or 'scheduled'.
    */
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const saveBlog = async (status: BlogStatus) => {
     // Basic validation
     if (title.trim().length < 3) {
       alert('Title must be at least 3 characters!');
       return;
     }
 
-    if (content.trim().length < 10) {
+    const hasImage = blocks.some((block) => block.type === 'image');
+    const plainText = blocksToPlainText(blocks);
+    if (!hasImage && plainText.length < 10) {
       alert('Content must be at least 10 characters!');
       return;
     }
 
+    let publishAt: string | undefined;
+    if (status === 'scheduled') {
+      const scheduledTime = scheduleAt ? new Date(scheduleAt).getTime() : NaN;
+      if (Number.isNaN(scheduledTime) || scheduledTime <= Date.now()) {
+        alert('Pick a publish time in the future to schedule this post!');
+        return;
+      }
+      publishAt = new Date(scheduledTime).toISOString();
+    } else if (status === 'published' && !(editingBlog && isPublished(editingBlog))) {
+      // Going live now; posts that are already live keep their original date
+      publishAt = new Date().toISOString();
+    }
+
     if (!user) {
       alert('You must be logged in to create a blog post');
       return;
     }
 
     setIsUploading(true);
+    setPendingAction(status);
+    // Published posts land on the feed; everything else in "My drafts"
+    const destination = status === 'published' ? '/' : '/drafts';
     
     try {
-      let imageUrl: string | null = existingImageUrl;
-      // Handle image upload
-      if (selectedImage) {
-        // If editing and there's an old image, delete it first
-        if (mode === 'edit' && existingImageUrl) {
-          await deleteImage(existingImageUrl);
-        }
-        
-        // Upload new image
-        imageUrl = await uploadImage(selectedImage, user.id);
-      } else if (removeImage && existingImageUrl) {
-        // User wants to remove the image
-        await deleteImage(existingImageUrl);
-        imageUrl = null;
-      }
+      const contentBlocks = await buildContentBlocks(user.id);
+      const content = blocksToPlainText(contentBlocks);
+      // Keep the legacy featured image column pointing at the first image
+      const imageUrl = getBlockImageUrls(contentBlocks)[0] ?? null;
+
       //Create or update blog
       if (mode === 'create') {
-        const result = await dispatch(createBlog({ title, content, imageUrl }));
+        const result = await dispatch(createBlog({ title, content, imageUrl, contentBlocks, status, publishAt, tags }));
         if (result.meta.requestStatus === 'fulfilled') {
-          navigate('/');
+          setIsDirty(false);
+          await clearLocalDraft();
+          navigate(destination);
         }
-      } else if (mode === 'edit' && currentBlog) {
-        const result = await dispatch(updateBlog({ id: currentBlog.id, title, content, imageUrl }));
+      } else if (mode === 'edit' && editingBlog) {
+        const result = await dispatch(updateBlog({ id: editingBlog.id, title, content, imageUrl, contentBlocks, status, publishAt, tags }));
         if (result.meta.requestStatus === 'fulfilled') {
-          navigate('/');
+          setIsDirty(false);
+          await clearLocalDraft();
+          navigate(destination);
         }
       }
-    } catch (error: any) {
-      setImageError(error.message);
+    } catch (error) {
+      setImageError((error as Error).message);
     } finally {
       setIsUploading(false);
+      setPendingAction(null);
     }
   };
 
-  // Determine which image to display
-  const displayImage = imagePreview || (!removeImage ? existingImageUrl : null);
+  /**
+   * Form Submission
+   * Pressing Enter or the primary button publishes the post.
+   * @param {React.FormEvent} e - Form submission event.
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveBlog('published');
+  };
+
+  const isBusy = loading || isUploading;
+  const isLive = !!editingBlog && isPublished(editingBlog);
+
+  /** Spinner + label shown on whichever button started the save */
+  const renderBusyLabel = (label: string) => (
+    <span className="flex items-center justify-center gap-2">
+      <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
+        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+      </svg>
+      {label}
+    </span>
+  );
+
+  // --- EDIT MODE GUARDS ---
+  if (mode === 'edit') {
+    const failure = loadFailure?.id === id ? loadFailure : null;
+
+    if (failure) {
+      return (
+        <div className="container mx-auto px-4 py-8 max-w-3xl">
+          <div className="card text-center py-12">
+            <h1 className="text-2xl font-bold text-gray-800 mb-4">
+              {failure.status === 'not-found' ? 'Blog not found' : 'Could not load blog'}
+            </h1>
+            {failure.status === 'error' && (
+              <ErrorAlert message={failure.message || 'Failed to load blog.'} />
+            )}
+            <Link to="/" className="btn btn-primary">
+              Back to All Blogs
+            </Link>
+          </div>
+        </div>
+      );
+    }
+
+    if (!editingBlog || editingBlog.id !== id) {
+      return <LoadingSpinner message="Loading blog..." />;
+    }
+
+    // No user only while the re-login prompt is open; keep the form
+    if (user && user.id !== editingBlog.author_id) {
+      return (
+        <div className="container mx-auto px-4 py-8 max-w-3xl">
+          <div className="card text-center py-12">
+            <h1 className="text-2xl font-bold text-gray-800 mb-4">This post isn't yours</h1>
+            <p className="text-gray-600 mb-6">
+              Only the author of a post can edit it.
+            </p>
+            <Link to={`/blog/${editingBlog.slug}`} className="btn btn-primary">
+              View Post
+            </Link>
+          </div>
+        </div>
+      );
+    }
+  }
 
   return (
     <div className="container mx-auto px-4 py-8 max-w-3xl">
@@ -193,6 +406,30 @@ export default function BlogForm({ mode }: BlogFormProps) {
           {mode === 'create' ? 'Create New Blog' : 'Edit Blog'}
         </h1>
 
+        {/* RESTORE PROMPT: A newer local copy survived a crash or expired session */}
+        {recoveredDraft && (
+          <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <span>
+              You have unsaved changes from{' '}
+              {new Date(recoveredDraft.savedAt).toLocaleString('en-US', {
+                month: 'short',
+                day: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit',
+              })}
+              . Restore them?
+            </span>
+            <div className="flex gap-2">
+              <button type="button" onClick={handleRestoreDraft} className="btn btn-primary">
+                Restore
+              </button>
+              <button type="button" onClick={discardRecoveredDraft} className="btn btn-outline">
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+
         <form onSubmit={handleSubmit} className="space-y-6">
             {/* TITLE INPUT */}
           <div>
@@ -203,7 +440,7 @@ export default function BlogForm({ mode }: BlogFormProps) {
               id="title"
               type="text"
               value={title}
-              onChange={(e) => setTitle(e.target.value)}
+              onChange={(e) => handleTitleChange(e.target.value)}
               required
               minLength={3}
               className="input"
@@ -212,82 +449,28 @@ export default function BlogForm({ mode }: BlogFormProps) {
             <p className="text-xs text-gray-500 mt-1">Minimum 3 characters</p>
           </div>
 
-           {/* IMAGE UPLOAD */}
+          {/* CONTENT BLOCKS */}
           <div>
-            <label htmlFor="image" className="label">
-              Featured Image (Optional)
-            </label>
-            
-            {/* Image Preview */}
-            {displayImage && (
-              <div className="mb-4 relative">
-                <img
-                  src={displayImage}
-                  alt="Blog preview"
-                  className="w-full h-64 object-cover rounded-lg border-2 border-gray-200"
-                />
-                <button
-                  type="button"
-                  disabled={isUploading}
-                  onClick={handleRemoveImage}
-                  className="absolute top-2 right-2 bg-red-500 text-white p-2 rounded-full hover:bg-red-600 transition-colors"
-                  aria-label="Remove image"
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                  </svg>
-                </button>
-              </div>
-            )}
-
-            {/* File Input */}
-            {!displayImage && (
-              <div className="mt-2">
-                <label
-                  htmlFor="image"
-                  className="flex flex-col items-center justify-center w-full h-32 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100 transition-colors"
-                >
-                  <div className="flex flex-col items-center justify-center pt-5 pb-6">
-                    <svg className="w-10 h-10 mb-3 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-                    </svg>
-                    <p className="mb-2 text-sm text-gray-500">
-                      <span className="font-semibold">Click to upload</span> or drag and drop
-                    </p>
-                    <p className="text-xs text-gray-500">PNG, JPG, WebP or GIF (MAX. 5MB)</p>
-                  </div>
-                  <input
-                    id="image"
-                    type="file"
-                    className="hidden"
-                    accept="image/jpeg,image/png,image/webp,image/gif"
-                    onChange={handleImageSelect}
-                  />
-                </label>
-              </div>
-            )}
-
+            <span className="label">Blog Content</span>
+            <BlockEditor
+              blocks={blocks}
+              onChange={handleBlocksChange}
+              onError={setImageError}
+              disabled={isUploading}
+            />
             {imageError && (
               <p className="text-sm text-red-600 mt-2">{imageError}</p>
             )}
+            <p className="text-xs text-gray-500 mt-1">Minimum 10 characters of text, or at least one image</p>
           </div>
 
-          {/* CONTENT TEXTAREA */}
+          {/* TAGS */}
           <div>
-            <label htmlFor="content" className="label">
-              Blog Content
+            <label htmlFor="tags" className="label">
+              Tags (Optional)
             </label>
-            <textarea
-              id="content"
-              value={content}
-              onChange={(e) => setContent(e.target.value)}
-              required
-              minLength={10}
-              rows={12}
-              className="input resize-none"
-              placeholder="Write your blog content here..."
-            />
-            <p className="text-xs text-gray-500 mt-1">Minimum 10 characters</p>
+            <TagInput tags={tags} onChange={handleTagsChange} disabled={isUploading} />
+            <p className="text-xs text-gray-500 mt-1">Press Enter or comma to add a tag</p>
           </div>
 
           {error && (
@@ -296,23 +479,47 @@ export default function BlogForm({ mode }: BlogFormProps) {
             </div>
           )}
 
-          <div className="flex gap-4">
+          {/* SCHEDULE PICKER */}
+          <div className="flex flex-col sm:flex-row sm:items-end gap-3 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+            <div className="flex-1">
+              <label htmlFor="scheduleAt" className="label">
+                Schedule for later (Optional)
+              </label>
+              <input
+                id="scheduleAt"
+                type="datetime-local"
+                value={scheduleAt}
+                onChange={(e) => setScheduleAt(e.target.value)}
+                className="input bg-white"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => saveBlog('scheduled')}
+              disabled={isBusy || !scheduleAt}
+              className="btn btn-secondary"
+            >
+              {pendingAction === 'scheduled' ? renderBusyLabel('Scheduling...') : 'Schedule'}
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-4">
             <button
               type="submit"
-              disabled={loading}
+              disabled={isBusy}
               className="btn btn-primary flex-1"
             >
-              {loading ? (
-                <span className="flex items-center justify-center gap-2">
-                  <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                  </svg>
-                  {mode === 'create' ? 'Creating...' : 'Updating...'}
-                </span>
-              ) : (
-                mode === 'create' ? 'Create Blog' : 'Update Blog'
-              )}
+              {pendingAction === 'published'
+                ? renderBusyLabel(isLive ? 'Updating...' : 'Publishing...')
+                : isLive ? 'Update Blog' : 'Publish Now'}
+            </button>
+            <button
+              type="button"
+              onClick={() => saveBlog('draft')}
+              disabled={isBusy}
+              className="btn btn-outline flex-1"
+            >
+              {pendingAction === 'draft' ? renderBusyLabel('Saving...') : 'Save Draft'}
             </button>
             <button
               type="button"
@@ -1,8 +1,10 @@
-import { Link } from 'react-router-dom';
+import { Link, useParams } from 'react-router-dom';
 import { useBlogList } from './useBlogList';
 // Child components
 import BlogCard from './components/BlogCard';
 import Pagination from './components/Pagination';
+import InfiniteScrollTrigger from './components/InfiniteScrollTrigger';
+import BlogFilterBar from './components/BlogFilterBar';
 import LoadingSpinner from './components/LoadingSpinner';
 import EmptyState from './components/EmptyState';
 import ErrorAlert from './components/ErrorAlert';
@@ -10,21 +12,33 @@ import ErrorAlert from './components/ErrorAlert';
 /**
  * BlogList Component
  * The primary landing page that displays a paginated list of all blog posts.
+ * Also serves `/tag/:slug`, listing only the posts with that tag.
+ * Readers can switch between infinite scroll and numbered pages, and
+ * sort or filter the list; all of it is kept in the URL.
  * Uses the useBlogList hook for logic and state.
  */
 export default function BlogList() {
+  const { slug } = useParams<{ slug: string }>();
   const {
     blogs,
     loading,
     error,
     totalPages,
     currentPage,
+    hasMore,
+    activeTag,
+    filters,
+    authors,
+    mode,
     user,
+    handleModeChange,
+    handleFiltersChange,
     handlePageChange,
+    handleLoadMore,
     handleEdit,
     handleDelete,
     handleDismissError,
-  } = useBlogList();
+  } = useBlogList(slug);
 
   // Initial loading state: show spinner when we have no data and are fetching
   if (loading && blogs.length === 0) {
@@ -34,20 +48,67 @@ export default function BlogList() {
   return (
     <div className="container mx-auto px-4 py-8">
       {/* Header Section */}
-      <div className="flex justify-between items-center mb-8">
-        <h1 className="text-4xl font-bold text-gray-800">All Blogs</h1>
-        {user && (
-          <Link to="/create" className="btn btn-primary">
-            + Create New Blog
-          </Link>
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+        {slug ? (
+          <div>
+            <h1 className="text-4xl font-bold text-gray-800">
+              Posts tagged #{activeTag?.name ?? slug}
+            </h1>
+            <Link to="/" className="text-sm text-primary-600 hover:text-primary-700">
+              ← All Blogs
+            </Link>
+          </div>
+        ) : (
+          <h1 className="text-4xl font-bold text-gray-800">All Blogs</h1>
         )}
+        <div className="flex items-center gap-4">
+          {/* Feed Mode Switch */}
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm" role="group" aria-label="Feed layout">
+            <button
+              onClick={() => handleModeChange('infinite')}
+              aria-pressed={mode === 'infinite'}
+              className={`px-3 py-2 ${mode === 'infinite' ? 'bg-primary-500 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+            >
+              Scroll
+            </button>
+            <button
+              onClick={() => handleModeChange('pages')}
+              aria-pressed={mode === 'pages'}
+              className={`px-3 py-2 ${mode === 'pages' ? 'bg-primary-500 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+            >
+              Pages
+            </button>
+          </div>
+          {user && (
+            <Link to="/create" className="btn btn-primary">
+              + Create New Blog
+            </Link>
+          )}
+        </div>
       </div>
 
+      {/* Sort & Filter Controls */}
+      <BlogFilterBar filters={filters} authors={authors} onChange={handleFiltersChange} />
+
       {/* Error Feedback */}
       {error && <ErrorAlert message={error} onDismiss={handleDismissError} />}
 
       {/* Blog Content Logic */}
-      {blogs.length === 0 ? (
+      {blogs.length === 0 && slug ? (
+        <div className="card text-center py-12">
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">No posts with this tag</h2>
+          <Link to="/" className="btn btn-primary">
+            Browse All Blogs
+          </Link>
+        </div>
+      ) : blogs.length === 0 && (filters.author || filters.from || filters.to) ? (
+        <div className="card text-center py-12">
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">No posts match these filters</h2>
+          <button onClick={() => handleFiltersChange({})} className="btn btn-primary">
+            Clear Filters
+          </button>
+        </div>
+      ) : blogs.length === 0 ? (
         <EmptyState isAuthenticated={!!user} />
       ) : (
         <>
@@ -65,11 +126,19 @@ export default function BlogList() {
           </div>
 
           {/* Navigation Controls */}
-          <Pagination
-            currentPage={currentPage}
-            totalPages={totalPages}
-            onPageChange={handlePageChange}
-          />
+          {mode === 'infinite' ? (
+            <InfiniteScrollTrigger
+              hasMore={hasMore}
+              loading={loading}
+              onLoadMore={handleLoadMore}
+            />
+          ) : (
+            <Pagination
+              currentPage={currentPage}
+              totalPages={totalPages}
+              onPageChange={handlePageChange}
+            />
+          )}
         </>
       )}
     </div>
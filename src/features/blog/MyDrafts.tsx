@@ -0,0 +1,73 @@
+import { useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import type { AppDispatch, RootState } from '../../app/store';
+import type { Blog } from '../../types';
+import { fetchDrafts, deleteBlog, clearError } from './blogSlice';
+import BlogCard from './components/BlogCard';
+import LoadingSpinner from './components/LoadingSpinner';
+import ErrorAlert from './components/ErrorAlert';
+
+/**
+ * MyDrafts Component
+ * Lists the logged-in author's drafts and scheduled posts, which never
+ * appear in the public feed until they go live.
+ */
+export default function MyDrafts() {
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+
+  const { drafts, loading, error } = useSelector((state: RootState) => state.blog);
+
+  useEffect(() => {
+    dispatch(fetchDrafts());
+  }, [dispatch]);
+
+  const handleEdit = (blog: Blog) => {
+    navigate(`/edit/${blog.id}`);
+  };
+
+  const handleDelete = (id: string) => {
+    if (window.confirm('Are you sure you want to delete this draft?')) {
+      dispatch(deleteBlog(id));
+    }
+  };
+
+  if (loading && drafts.length === 0) {
+    return <LoadingSpinner message="Loading drafts..." />;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-4xl font-bold text-gray-800">My Drafts</h1>
+        <Link to="/create" className="btn btn-primary">
+          + Create New Blog
+        </Link>
+      </div>
+
+      {error && <ErrorAlert message={error} onDismiss={() => dispatch(clearError())} />}
+
+      {drafts.length === 0 ? (
+        <div className="card text-center py-12">
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">No drafts</h2>
+          <p className="text-gray-600">
+            Posts you save as drafts or schedule for later will show up here.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {drafts.map((blog) => (
+            <BlogCard
+              key={blog.id}
+              blog={blog}
+              isOwner
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
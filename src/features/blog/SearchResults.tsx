@@ -0,0 +1,124 @@
+import { useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import type { AppDispatch, RootState } from '../../app/store';
+import { searchBlogs, clearError } from './blogSlice';
+import { getSearchTerms, getMatchExcerpt } from '../../lib/highlight';
+import HighlightedText from './components/HighlightedText';
+import TagChips from './components/TagChips';
+import Pagination from './components/Pagination';
+import LoadingSpinner from './components/LoadingSpinner';
+import ErrorAlert from './components/ErrorAlert';
+
+/**
+ * SearchResults Component
+ * * * Full-text search page behind the Navbar search box.
+ * * FEATURES:
+ * - URL Driven: Reads `?q=` and `?page=`, so searches can be shared and survive a refresh.
+ * - Relevance Order: Posts are ranked by the database, title matches first.
+ * - Highlighting: Matched words are marked in the title and in an excerpt taken around the first match.
+ */
+export default function SearchResults() {
+  const dispatch = useDispatch<AppDispatch>();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const query = (searchParams.get('q') || '').trim();
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+
+  const { searchResults, searchTotal, searchLoading, error, searchTotalPages, searchPage } = useSelector(
+    (state: RootState) => state.blog
+  );
+
+  // Run the search whenever the query or page in the URL changes
+  useEffect(() => {
+    if (!query) return;
+    const request = dispatch(searchBlogs({ query, page }));
+    return () => {
+      request.abort();
+    };
+  }, [query, page, dispatch]);
+
+  /**
+   * Moves to another page of results and scrolls to top.
+   */
+  const handlePageChange = (nextPage: number) => {
+    setSearchParams({ q: query, page: String(nextPage) });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const terms = getSearchTerms(query);
+
+  if (!query) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="card text-center py-12">
+          <h1 className="text-2xl font-bold text-gray-800 mb-4">Search posts</h1>
+          <p className="text-gray-600">Type a few words into the search box to find a post.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (searchLoading && searchResults.length === 0) {
+    return <LoadingSpinner message="Searching..." />;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      {/* Header Section */}
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold text-gray-800 mb-2">
+          Results for “{query}”
+        </h1>
+        <p className="text-gray-600">
+          {searchTotal} {searchTotal === 1 ? 'post' : 'posts'} found
+        </p>
+      </div>
+
+      {error && <ErrorAlert message={error} onDismiss={() => dispatch(clearError())} />}
+
+      {searchResults.length === 0 ? (
+        <div className="card text-center py-12">
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">No matching posts</h2>
+          <p className="text-gray-600 mb-6">Try fewer or different words.</p>
+          <Link to="/" className="btn btn-primary">
+            Browse All Blogs
+          </Link>
+        </div>
+      ) : (
+        <>
+          <ul className="space-y-4 mb-8">
+            {searchResults.map((blog) => (
+              <li key={blog.id} className="card">
+                <Link to={`/blog/${blog.slug}`} className="block group">
+                  <h2 className="text-xl font-bold text-gray-800 mb-2 group-hover:text-primary-600 transition-colors">
+                    <HighlightedText text={blog.title} terms={terms} />
+                  </h2>
+                  <p className="text-gray-600 mb-3">
+                    <HighlightedText text={getMatchExcerpt(blog.content, terms)} terms={terms} />
+                  </p>
+                </Link>
+                <div className="flex flex-wrap items-center gap-3 text-sm text-gray-500">
+                  <span>
+                    {new Date(blog.created_at).toLocaleDateString('en-US', {
+                      year: 'numeric',
+                      month: 'long',
+                      day: 'numeric',
+                    })}
+                  </span>
+                  <TagChips tags={blog.tags} />
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <Pagination
+            currentPage={searchPage}
+            totalPages={searchTotalPages}
+            onPageChange={handlePageChange}
+          />
+        </>
+      )}
+    </div>
+  );
+}
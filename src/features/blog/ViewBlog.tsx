@@ -1,16 +1,49 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useDispatch, useSelector } from 'react-redux';
 import type { AppDispatch, RootState } from '../../app/store';
-import { setCurrentBlog, deleteBlog } from './blogSlice';
+import type { Blog } from '../../types';
+import { setCurrentBlog, deleteBlog, fetchBlogBySlug } from './blogSlice';
 import LoadingSpinner from './components/LoadingSpinner';
+import ErrorAlert from './components/ErrorAlert';
+import BlockRenderer from './components/BlockRenderer';
+import RevisionHistory from './components/RevisionHistory';
+import TagChips from './components/TagChips';
+import Avatar from '../../components/Avatar';
+import { getDisplayName } from '../../lib/profile';
+import { getBlogBlocks } from './contentBlocks';
+import { getStatusLabel } from './blogStatus';
 import Comments from '../comment/Comment';
+
+/**
+ * Outcome of a failed server lookup, remembered per URL slug so that
+ * navigating to another post starts with a clean slate.
+ */
+interface LookupFailure {
+  slug: string;
+  status: 'not-found' | 'error';
+  message: string | null;
+}
+
+/**
+ * An old slug (or legacy ID) the server resolved to a post.
+ * Lets the page show that post until the URL is swapped for its slug.
+ */
+interface ResolvedLink {
+  slug: string;
+  blogId: string;
+}
+
 /**
  * ViewBlog Component
  * Displays the full content of a single blog post. 
+ * Uses the copy already in memory when possible, otherwise loads the post
+ * from the server so shared links and page refreshes work.
+ * The URL may hold the post's slug, an old slug or a legacy UUID;
+ * it is always replaced with the current slug.
 */
 export default function ViewBlog() {
-  const { id } = useParams<{ id: string }>();
+  const { slug } = useParams<{ slug: string }>();
   const navigate = useNavigate();
   const dispatch = useDispatch<AppDispatch>();
   
@@ -20,26 +53,71 @@ export default function ViewBlog() {
   const { blogs, currentBlog } = useSelector((state: RootState) => state.blog);
   const { user } = useSelector((state: RootState) => state.auth);
 
+  /** @type {LookupFailure | null} Set when the server could not return this post */
+  const [lookupFailure, setLookupFailure] = useState<LookupFailure | null>(null);
+  /** @type {ResolvedLink | null} The last old slug or ID the server resolved */
+  const [resolvedLink, setResolvedLink] = useState<ResolvedLink | null>(null);
+
+  /** True when the post is the one the URL points at */
+  const isLinkedPost = (blog: Blog) =>
+    blog.slug === slug ||
+    blog.id === slug ||
+    (resolvedLink?.slug === slug && resolvedLink?.blogId === blog.id);
+
+  const hasCurrent = !!currentBlog && isLinkedPost(currentBlog);
+  // Prefer the copy from the list if we already have it
+  const cached = blogs.find((b) => b.slug === slug || b.id === slug);
+
+  useEffect(() => {
+    if (!slug || hasCurrent) return;
+
+    if (cached) {
+      dispatch(setCurrentBlog(cached));
+      return;
+    }
+
+    // Don't retry automatically once the server has answered for this slug
+    if (lookupFailure?.slug === slug) return;
+
+    const request = dispatch(fetchBlogBySlug(slug));
+    request
+      .unwrap()
+      .then((blog) => {
+        if (!blog) {
+          setLookupFailure({ slug, status: 'not-found', message: null });
+        } else {
+          setResolvedLink({ slug, blogId: blog.id });
+        }
+      })
+      .catch((err) => {
+        // Ignore requests cancelled by navigating away
+        if (err?.name === 'AbortError') return;
+        setLookupFailure({ slug, status: 'error', message: err as string });
+      });
+
+    return () => {
+      request.abort();
+    };
+  }, [slug, hasCurrent, cached, lookupFailure, dispatch]);
+
+  /**
+   * CANONICAL URL EFFECT
+   * Swaps legacy IDs and old slugs for the current slug without adding a history entry.
+   */
   useEffect(() => {
-    // Find blog from the list or use currentBlog
-    const blog = blogs.find(b => b.id === id) || currentBlog;
-    
-    if (blog && blog.id === id) {
-      dispatch(setCurrentBlog(blog));
-    } else if (!blog) {
-      // Blog not found in list, redirect to home
-      navigate('/');
+    if (hasCurrent && currentBlog && currentBlog.slug !== slug) {
+      navigate(`/blog/${currentBlog.slug}`, { replace: true });
     }
-  }, [id, blogs, currentBlog, dispatch, navigate]);
+  }, [hasCurrent, currentBlog, slug, navigate]);
 
   const handleEdit = () => {
-    navigate('/edit');
+    if (currentBlog) navigate(`/edit/${currentBlog.id}`);
   };
 
   const handleDelete = async () => {
     if (window.confirm('Are you sure you want to delete this blog?')) {
-      if (id) {
-        await dispatch(deleteBlog(id));
+      if (currentBlog) {
+        await dispatch(deleteBlog(currentBlog.id));
         navigate('/');
       }
     }
@@ -49,7 +127,46 @@ export default function ViewBlog() {
     navigate(-1); // Go back to previous page
   };
 
-  if (!currentBlog) {
+  /** Clears the failed lookup so the effect fetches the post again */
+  const handleRetry = () => {
+    setLookupFailure(null);
+  };
+
+  const failure = lookupFailure?.slug === slug ? lookupFailure : null;
+
+  if (failure?.status === 'not-found') {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="card text-center py-12">
+          <h1 className="text-2xl font-bold text-gray-800 mb-4">Blog not found</h1>
+          <p className="text-gray-600 mb-6">
+            This post may have been deleted, or the link may be wrong.
+          </p>
+          <Link to="/" className="btn btn-primary">
+            Back to All Blogs
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (failure?.status === 'error') {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <ErrorAlert message={failure.message || 'Failed to load blog.'} />
+        <div className="flex gap-4">
+          <button onClick={handleRetry} className="btn btn-primary">
+            Try Again
+          </button>
+          <Link to="/" className="btn btn-outline">
+            Back to All Blogs
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!currentBlog || !hasCurrent) {
     return <LoadingSpinner message="Loading blog..." />;
   }
 
@@ -68,6 +185,7 @@ export default function ViewBlog() {
   });
 
   const wasEdited = currentBlog.created_at !== currentBlog.updated_at;
+  const statusLabel = getStatusLabel(currentBlog);
 
 
   return (
@@ -88,12 +206,25 @@ export default function ViewBlog() {
         <article className="card">
           {/* Header */}
           <header className="mb-6 pb-6 border-b border-gray-200">
+            {/* Only the author can load unpublished posts, so this is owner-only */}
+            {statusLabel && (
+              <span className="inline-block text-xs font-semibold uppercase tracking-wider bg-amber-100 text-amber-800 px-2 py-1 rounded-full mb-3">
+                {statusLabel}
+              </span>
+            )}
             <h1 className="text-4xl md:text-5xl font-bold text-gray-900 mb-4">
               {currentBlog.title}
             </h1>
             
             {/* Metadata */}
-            <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+              <Link to={`/u/${currentBlog.author_id}`} className="flex items-center gap-2 group">
+                <Avatar profile={currentBlog.author} size="md" />
+                <span className="font-semibold text-gray-800 group-hover:text-primary-600 transition-colors">
+                  {getDisplayName(currentBlog.author)}
+                </span>
+              </Link>
+
               <div className="flex items-center gap-2">
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
@@ -110,26 +241,14 @@ export default function ViewBlog() {
                 </div>
               )}
             </div>
+
+            <TagChips tags={currentBlog.tags} className="mt-4" />
           </header>
 
           {/* Blog Content */}
           <div className="prose prose-lg max-w-none mb-8">
-            {/* Featured Image */}
-            {currentBlog.image_url && (
-              <div className="mb-8">
-                <img
-                  src={currentBlog.image_url}
-                  alt={currentBlog.title}
-                  className="w-full h-auto max-h-96 object-cover rounded-lg shadow-md"
-                  onError={(e) => {
-                    e.currentTarget.style.display = 'none';
-                  }}
-                />
-              </div>
-            )}
-            <p className="text-gray-700 whitespace-pre-wrap leading-relaxed">
-              {currentBlog.content}
-            </p>
+            {/* Legacy posts are converted to blocks so they render the same way */}
+            <BlockRenderer blocks={getBlogBlocks(currentBlog)} title={currentBlog.title} />
           </div>
 
           {/* Action Buttons - Only for Owner */}
@@ -172,6 +291,8 @@ export default function ViewBlog() {
             </Link>
           </div>
         </article>
+        {/* Owner-only version history */}
+        {isOwner && <RevisionHistory blog={currentBlog} />}
         <Comments blogId={currentBlog.id} />
 
       </div>
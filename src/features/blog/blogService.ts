@@ -1,5 +1,75 @@
 import { supabase } from '../../lib/supabase';
 import { deleteImage as deleteStorageImage } from '../../lib/imageUpload';
+import { slugify } from '../../lib/slugify';
+import { toContainsPattern } from '../../lib/likePattern';
+import type { BlogCursor, BlogFilters, BlogInput, BlogSort, ContentBlock, ProfileSummary, Tag } from '../../types';
+import { getBlockImageUrls } from './contentBlocks';
+import { getCommentImages } from '../comment/commentImages';
+
+/** Columns selected for a post: the row, its tags through 'blog_tags' and its author's profile */
+const BLOG_SELECT = '*, tags(id, name, slug), author:profiles!blogs_author_id_fkey(id, display_name, avatar_url)';
+
+/** Longest slug generated from a title, before any collision suffix */
+const MAX_SLUG_LENGTH = 80;
+
+/** Matches post IDs, so legacy `/blog/:id` links can be told apart from slugs */
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Turns a title into the slug sent to the database.
+ * The 'on_blog_slug_set' trigger appends -2, -3, ... if it is already taken.
+ */
+function toSlugBase(title: string): string {
+  return slugify(title).slice(0, MAX_SLUG_LENGTH).replace(/-+$/, '') || 'post';
+}
+
+/** Column and direction behind each feed sort; `id` always breaks ties */
+const SORT_ORDERS: Record<BlogSort, { column: 'created_at' | 'updated_at' | 'comment_count'; ascending: boolean }> = {
+  newest: { column: 'created_at', ascending: false },
+  oldest: { column: 'created_at', ascending: true },
+  'most-commented': { column: 'comment_count', ascending: false },
+  updated: { column: 'updated_at', ascending: false },
+};
+
+/**
+ * Converts a YYYY-MM-DD day into the ISO timestamp of its local midnight.
+ * @param {string} day - The day from a date input.
+ * @param {number} [offsetDays=0] - Days to add, e.g. 1 for the end of the day.
+ * @returns {string | null} The timestamp, or null if the day is invalid.
+ */
+function dayToTimestamp(day: string, offsetDays = 0): string | null {
+  const date = new Date(`${day}T00:00:00`);
+  if (Number.isNaN(date.getTime())) return null;
+  date.setDate(date.getDate() + offsetDays);
+  return date.toISOString();
+}
+
+/**
+ * Builds a query over the public feed: live posts only, narrowed by the filters.
+ * Inner-joining blog_tags keeps only tagged posts while `tags` still embeds all of them.
+ */
+function buildFeedQuery(
+  columns: string,
+  tag: Tag | null,
+  filters: BlogFilters,
+  options?: { count: 'exact'; head: true }
+) {
+  let query = supabase
+    .from('blogs')
+    .select(tag ? `${columns}, blog_tags!inner(tag_id)` : columns, options)
+    .neq('status', 'draft')
+    .lte('publish_at', new Date().toISOString());
+  if (tag) query = query.eq('blog_tags.tag_id', tag.id);
+  if (filters.author) query = query.eq('author_id', filters.author);
+
+  const from = filters.from ? dayToTimestamp(filters.from) : null;
+  if (from) query = query.gte('created_at', from);
+  // `to` is inclusive, so stop at the following midnight
+  const to = filters.to ? dayToTimestamp(filters.to, 1) : null;
+  if (to) query = query.lt('created_at', to);
+
+  return query;
+}
 
 /**
  * Service layer for Blog data operations.
@@ -8,33 +78,258 @@ import { deleteImage as deleteStorageImage } from '../../lib/imageUpload';
 export const blogService = {
   /**
    * Fetches blogs from the database using server-side pagination.
+   * Only live posts are returned: drafts and scheduled posts whose
+   * `publish_at` is still in the future are left out.
+   * Sorting and filters are described by BlogFilters.
+   * When filtering by tag, also returns the matching tag (null if unknown).
+   */
+  async fetchPaginatedBlogs(page: number, itemsPerPage: number, filters: BlogFilters = {}) {
+    const from = (page - 1) * itemsPerPage;
+    const to = from + itemsPerPage - 1;
+
+    let tag: Tag | null = null;
+    if (filters.tag) {
+      tag = await this.fetchTagBySlug(filters.tag);
+      if (!tag) return { data: [], count: 0, tag };
+    }
+
+    const { count, error: countError } = await buildFeedQuery('id', tag, filters, { count: 'exact', head: true });
+    if (countError) throw countError;
+
+    const { column, ascending } = SORT_ORDERS[filters.sort ?? 'newest'];
+    const { data, error } = await buildFeedQuery(BLOG_SELECT, tag, filters)
+      .order(column, { ascending })
+      .order('id', { ascending })
+      .range(from, to);
+
+    if (error) throw error;
+    return { data: data || [], count: count || 0, tag };
+  },
+
+  /**
+   * Fetches the next slice of the feed using keyset (cursor) pagination.
+   * Unlike fetchPaginatedBlogs there is no count query or OFFSET, so it stays
+   * fast on large tables and never repeats or skips posts when new ones arrive.
+   * Posts are ordered by `(sort column, id)`, newest first by default; `cursor`
+   * is the last post already shown, or null for the first slice.
+   * @returns {{ data, nextCursor, tag }} `nextCursor` is null on the last slice.
+   */
+  async fetchBlogsAfter(cursor: BlogCursor | null, limit: number, filters: BlogFilters = {}) {
+    let tag: Tag | null = null;
+    if (filters.tag) {
+      tag = await this.fetchTagBySlug(filters.tag);
+      if (!tag) return { data: [], nextCursor: null, tag };
+    }
+
+    const { column, ascending } = SORT_ORDERS[filters.sort ?? 'newest'];
+    let query = buildFeedQuery(BLOG_SELECT, tag, filters);
+    if (cursor) {
+      // Strictly past the cursor, with the id breaking ties on equal values
+      const op = ascending ? 'gt' : 'lt';
+      query = query.or(
+        `${column}.${op}."${cursor.value}",and(${column}.eq."${cursor.value}",id.${op}.${cursor.id})`
+      );
+    }
+
+    // One extra row tells us whether another slice exists
+    const { data, error } = await query
+      .order(column, { ascending })
+      .order('id', { ascending })
+      .limit(limit + 1);
+
+    if (error) throw error;
+    const rows = (data || []) as unknown as (Record<typeof column, string | number> & { id: string })[];
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor: BlogCursor | null =
+      rows.length > limit && last ? { value: last[column], id: last.id } : null;
+
+    return { data: page, nextCursor, tag };
+  },
+
+  /**
+   * Fetches everyone who has at least one live post, for the author filter.
    */
-  async fetchPaginatedBlogs(page: number, itemsPerPage: number) {
+  async fetchAuthors(): Promise<ProfileSummary[]> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, display_name, avatar_url, blogs!inner(id)')
+      .neq('blogs.status', 'draft')
+      .lte('blogs.publish_at', new Date().toISOString())
+      .limit(1, { referencedTable: 'blogs' })
+      .order('display_name');
+
+    if (error) throw error;
+    return (data || []).map(({ id, display_name, avatar_url }) => ({ id, display_name, avatar_url }));
+  },
+
+  /**
+   * Full-text search over live posts, most relevant first.
+   * Ranking happens in the 'search_blogs' database function.
+   */
+  async searchBlogs(query: string, page: number, itemsPerPage = 6) {
     const from = (page - 1) * itemsPerPage;
     const to = from + itemsPerPage - 1;
 
-    const { count } = await supabase
+    const { data, error, count } = await supabase
+      .rpc('search_blogs', { search_query: query }, { count: 'exact' })
+      .select(BLOG_SELECT)
+      .range(from, to);
+
+    if (error) throw error;
+    return { data: data || [], count: count || 0 };
+  },
+
+  /**
+   * Fetches an author's unpublished posts: drafts and scheduled posts
+   * that have not gone live yet, most recently edited first.
+   */
+  async fetchDraftsByAuthor(userId: string) {
+    const { data, error } = await supabase
       .from('blogs')
-      .select('*', { count: 'exact', head: true });
+      .select(BLOG_SELECT)
+      .eq('author_id', userId)
+      .or(`status.eq.draft,publish_at.gt.${new Date().toISOString()}`)
+      .order('updated_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
 
+  /**
+   * Fetches a single blog post by its ID.
+   * Resolves to null when no post with that ID exists.
+   */
+  async fetchBlogById(id: string) {
     const { data, error } = await supabase
       .from('blogs')
+      .select(BLOG_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Fetches a single blog post by its slug.
+   * Also accepts a legacy post ID or an old slug kept as an alias
+   * after a title change. Resolves to null when nothing matches.
+   */
+  async fetchBlogBySlug(slug: string) {
+    if (UUID_PATTERN.test(slug)) return this.fetchBlogById(slug);
+
+    const { data, error } = await supabase
+      .from('blogs')
+      .select(BLOG_SELECT)
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) return data;
+
+    const { data: alias, error: aliasError } = await supabase
+      .from('blog_slug_aliases')
+      .select('blog_id')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (aliasError) throw aliasError;
+    return alias ? this.fetchBlogById(alias.blog_id) : null;
+  },
+
+  /**
+   * Looks up a tag by its slug.
+   * Resolves to null when no such tag exists.
+   */
+  async fetchTagBySlug(slug: string): Promise<Tag | null> {
+    const { data, error } = await supabase
+      .from('tags')
+      .select('id, name, slug')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Finds existing tags whose name contains the query, for autocomplete.
+   */
+  async searchTags(query: string, limit = 8): Promise<Tag[]> {
+    const { data, error } = await supabase
+      .from('tags')
+      .select('id, name, slug')
+      .ilike('name', toContainsPattern(query))
+      .order('name')
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Replaces the tags of a post. Unknown tag names are created first.
+   * @returns {Promise<Tag[]>} The tags now linked to the post.
+   */
+  async setBlogTags(blogId: string, names: string[]): Promise<Tag[]> {
+    // One tag per slug, keeping the first spelling the writer used
+    const bySlug = new Map<string, string>();
+    for (const name of names) {
+      const slug = slugify(name);
+      if (slug && !bySlug.has(slug)) bySlug.set(slug, name.trim());
+    }
+    const slugs = [...bySlug.keys()];
+
+    let tags: Tag[] = [];
+    if (slugs.length > 0) {
+      const { error: upsertError } = await supabase
+        .from('tags')
+        .upsert(slugs.map((slug) => ({ slug, name: bySlug.get(slug) })), { onConflict: 'slug', ignoreDuplicates: true });
+      if (upsertError) throw upsertError;
+
+      const { data, error } = await supabase.from('tags').select('id, name, slug').in('slug', slugs);
+      if (error) throw error;
+      tags = data || [];
+    }
+
+    const { error: deleteError } = await supabase.from('blog_tags').delete().eq('blog_id', blogId);
+    if (deleteError) throw deleteError;
+
+    if (tags.length > 0) {
+      const { error: insertError } = await supabase
+        .from('blog_tags')
+        .insert(tags.map((tag) => ({ blog_id: blogId, tag_id: tag.id })));
+      if (insertError) throw insertError;
+    }
+
+    return tags;
+  },
+
+  /**
+   * Fetches the saved previous versions of a post, newest first.
+   * RLS only returns rows to the post's author.
+   */
+  async fetchRevisions(blogId: string) {
+    const { data, error } = await supabase
+      .from('blog_revisions')
       .select('*')
-      .order('created_at', { ascending: false })
-      .range(from, to);
+      .eq('blog_id', blogId)
+      .order('created_at', { ascending: false });
 
     if (error) throw error;
-    return { data: data || [], count: count || 0 };
+    return data || [];
   },
 
   /**
    * Inserts a new blog post record into the database.
+   * The slug is generated from the title.
    */
-  async createBlog(title: string, content: string, imageUrl: string | null, userId: string) {
+  async createBlog(input: BlogInput, userId: string) {
     const { data, error } = await supabase
       .from('blogs')
-      .insert([{ title, content, image_url: imageUrl, author_id: userId }])
-      .select()
+      .insert([{ ...input, slug: toSlugBase(input.title), author_id: userId }])
+      .select(BLOG_SELECT)
       .single();
 
     if (error) throw error;
@@ -43,13 +338,29 @@ export const blogService = {
 
   /**
    * Updates an existing blog post record by ID.
+   * A new title gets a new slug; the database keeps the old one as an alias.
+   * Saves that keep the title leave the slug alone, so suffixed slugs
+   * (`-2`, or the `-<id>` ones from the backfill) do not move on every edit.
    */
-  async updateBlog(id: string, updateData: any) {
+  async updateBlog(id: string, updateData: Partial<BlogInput> & { updated_at?: string }) {
+    let changes: Partial<BlogInput> & { updated_at?: string; slug?: string } = updateData;
+    if (updateData.title !== undefined) {
+      const { data: current, error: currentError } = await supabase
+        .from('blogs')
+        .select('title')
+        .eq('id', id)
+        .single();
+
+      if (currentError) throw currentError;
+      const slug = toSlugBase(updateData.title);
+      if (toSlugBase(current.title) !== slug) changes = { ...updateData, slug };
+    }
+
     const { data, error } = await supabase
       .from('blogs')
-      .update(updateData)
+      .update(changes)
       .eq('id', id)
-      .select()
+      .select(BLOG_SELECT)
       .single();
 
     if (error) throw error;
@@ -57,17 +368,31 @@ export const blogService = {
   },
 
   /**
-   * Removes images from storage for a blog and its comments.
+   * Removes images from storage for a blog (featured image, image blocks and
+   * images only referenced by older revisions) and its comments.
    */
   async cleanupBlogAssets(blogId: string) {
-    const { data: blog } = await supabase.from('blogs').select('image_url').eq('id', blogId).single();
-    const { data: comments } = await supabase.from('comments').select('image_url').eq('blog_id', blogId);
+    const { data: blog } = await supabase.from('blogs').select('image_url, content_blocks').eq('id', blogId).single();
+    const { data: revisions } = await supabase.from('blog_revisions').select('image_url, content_blocks').eq('blog_id', blogId);
+    const { data: comments } = await supabase.from('comments').select('image_url, image_urls').eq('blog_id', blogId);
 
-    if (blog?.image_url) await deleteStorageImage(blog.image_url);
+    // The same image usually appears in several versions, so dedupe
+    const blogImages = new Set<string>();
+    for (const version of [...(blog ? [blog] : []), ...(revisions || [])]) {
+      for (const imageUrl of getBlockImageUrls((version.content_blocks as ContentBlock[] | null) || [])) {
+        blogImages.add(imageUrl);
+      }
+      if (version.image_url) blogImages.add(version.image_url);
+    }
+    for (const imageUrl of blogImages) {
+      await deleteStorageImage(imageUrl);
+    }
     
     if (comments) {
       for (const comment of comments) {
-        if (comment.image_url) await deleteStorageImage(comment.image_url);
+        for (const imageUrl of getCommentImages(comment)) {
+          await deleteStorageImage(imageUrl);
+        }
       }
     }
   },
@@ -1,17 +1,31 @@
 import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
 import type { BlogState, Blog } from '../../types';
 import * as thunks from './blogThunks';
+import { isPublished } from './blogStatus';
 
 // We re-export everything from thunks so components can still import them from here
 export * from './blogThunks';
 
 const initialState: BlogState = {
   blogs: [],
+  drafts: [],
   currentBlog: null,
+  revisions: [],
+  activeTag: null,
+  tagSuggestions: [],
+  authors: [],
+  searchResults: [],
+  searchTotal: 0,
+  searchTotalPages: 1,
+  searchPage: 1,
+  searchLoading: false,
+  searchRequestId: null,
   loading: false,
   error: null,
   totalPages: 1,
   currentPage: 1,
+  nextCursor: null,
+  feedRequestId: null,
 };
 
 /**
@@ -39,22 +53,144 @@ const blogSlice = createSlice({
       state.error = action.payload as string;
     };
 
+    // Remember the newest feed request so an aborted older one can't end its spinner
+    const handleFeedPending = (state: BlogState, action: { meta: { requestId: string } }) => {
+      handlePending(state);
+      state.feedRequestId = action.meta.requestId;
+    };
+
+    const handleFeedFulfilled = (state: BlogState, action: { meta: { requestId: string } }) => {
+      if (state.feedRequestId === action.meta.requestId) {
+        state.feedRequestId = null;
+      }
+      state.loading = false;
+    };
+
+    // The feed aborts a request when the view changes or unmounts; only stop
+    // loading when no newer request has taken its place
+    const handleFeedRejected = (
+      state: BlogState,
+      action: { meta: { aborted: boolean; requestId: string }; payload?: unknown }
+    ) => {
+      const isLatest = state.feedRequestId === action.meta.requestId;
+      if (isLatest) {
+        state.feedRequestId = null;
+      }
+      if (!action.meta.aborted) {
+        handleRejected(state, action);
+      } else if (isLatest) {
+        state.loading = false;
+      }
+    };
+
     builder
       // Fetch
-      .addCase(thunks.fetchBlogs.pending, handlePending)
+      .addCase(thunks.fetchBlogs.pending, handleFeedPending)
       .addCase(thunks.fetchBlogs.fulfilled, (state, action) => {
-        state.loading = false;
+        handleFeedFulfilled(state, action);
         state.blogs = action.payload.blogs;
         state.totalPages = action.payload.totalPages;
         state.currentPage = action.payload.currentPage;
+        state.activeTag = action.payload.tag;
+      })
+      .addCase(thunks.fetchBlogs.rejected, handleFeedRejected)
+
+      // Fetch feed slice (infinite scroll)
+      .addCase(thunks.fetchBlogFeed.pending, handleFeedPending)
+      .addCase(thunks.fetchBlogFeed.fulfilled, (state, action) => {
+        handleFeedFulfilled(state, action);
+        if (action.meta.arg.cursor) {
+          // Skip posts already shown, e.g. one that was edited meanwhile
+          const loaded = new Set(state.blogs.map((b) => b.id));
+          state.blogs.push(...action.payload.blogs.filter((b) => !loaded.has(b.id)));
+        } else {
+          state.blogs = action.payload.blogs;
+        }
+        state.nextCursor = action.payload.nextCursor;
+        state.activeTag = action.payload.tag;
+      })
+      .addCase(thunks.fetchBlogFeed.rejected, handleFeedRejected)
+
+      // Search (own pagination and spinner; a changed query aborts the older search)
+      .addCase(thunks.searchBlogs.pending, (state, action) => {
+        state.searchLoading = true;
+        state.searchRequestId = action.meta.requestId;
+        state.error = null;
+      })
+      .addCase(thunks.searchBlogs.fulfilled, (state, action) => {
+        if (state.searchRequestId !== action.meta.requestId) return;
+        state.searchLoading = false;
+        state.searchRequestId = null;
+        state.searchResults = action.payload.blogs;
+        state.searchTotal = action.payload.total;
+        state.searchTotalPages = action.payload.totalPages;
+        state.searchPage = action.payload.currentPage;
+      })
+      .addCase(thunks.searchBlogs.rejected, (state, action) => {
+        if (state.searchRequestId !== action.meta.requestId) return;
+        state.searchLoading = false;
+        state.searchRequestId = null;
+        if (!action.meta.aborted) {
+          state.error = action.payload as string;
+        }
+      })
+
+      // Fetch drafts
+      .addCase(thunks.fetchDrafts.pending, handlePending)
+      .addCase(thunks.fetchDrafts.fulfilled, (state, action) => {
+        state.loading = false;
+        state.drafts = action.payload;
+      })
+      .addCase(thunks.fetchDrafts.rejected, handleRejected)
+
+      // Fetch single
+      .addCase(thunks.fetchBlogById.pending, handlePending)
+      .addCase(thunks.fetchBlogById.fulfilled, (state, action) => {
+        state.loading = false;
+        if (action.payload) {
+          state.currentBlog = action.payload;
+        }
       })
-      .addCase(thunks.fetchBlogs.rejected, handleRejected)
+      .addCase(thunks.fetchBlogById.rejected, handleRejected)
+
+      // Fetch single by slug
+      .addCase(thunks.fetchBlogBySlug.pending, handlePending)
+      .addCase(thunks.fetchBlogBySlug.fulfilled, (state, action) => {
+        state.loading = false;
+        if (action.payload) {
+          state.currentBlog = action.payload;
+        }
+      })
+      .addCase(thunks.fetchBlogBySlug.rejected, handleRejected)
       
+      // Revisions
+      .addCase(thunks.fetchRevisions.pending, handlePending)
+      .addCase(thunks.fetchRevisions.fulfilled, (state, action) => {
+        state.loading = false;
+        state.revisions = action.payload;
+      })
+      .addCase(thunks.fetchRevisions.rejected, handleRejected)
+
+      // Tag autocomplete (quiet: no global spinner or error banner)
+      .addCase(thunks.fetchTagSuggestions.fulfilled, (state, action) => {
+        state.tagSuggestions = action.payload;
+      })
+
+      // Author filter options (quiet, like tag autocomplete)
+      .addCase(thunks.fetchAuthors.fulfilled, (state, action) => {
+        state.authors = action.payload;
+      })
+
       // Create
       .addCase(thunks.createBlog.pending, handlePending)
       .addCase(thunks.createBlog.fulfilled, (state, action) => {
         state.loading = false;
-        state.blogs.unshift(action.payload);
+        // Unpublished posts belong in "My drafts", not the public feed
+        if (isPublished(action.payload)) {
+          state.blogs.unshift(action.payload);
+        } else {
+          state.drafts.unshift(action.payload);
+        }
       })
       .addCase(thunks.createBlog.rejected, handleRejected)
 
@@ -62,11 +198,24 @@ const blogSlice = createSlice({
       .addCase(thunks.updateBlog.pending, handlePending)
       .addCase(thunks.updateBlog.fulfilled, (state, action) => {
         state.loading = false;
+        const live = isPublished(action.payload);
         const index = state.blogs.findIndex((b) => b.id === action.payload.id);
         if (index !== -1) {
-          state.blogs[index] = action.payload;
+          if (live) {
+            state.blogs[index] = action.payload;
+          } else {
+            state.blogs.splice(index, 1);
+          }
+        }
+        // Keep "My drafts" in step: drop posts that went live, refresh the rest
+        state.drafts = state.drafts.filter((b) => b.id !== action.payload.id);
+        if (!live) {
+          state.drafts.unshift(action.payload);
+        }
+        // Keep an open post page in step (e.g. after restoring a revision)
+        if (state.currentBlog?.id === action.payload.id) {
+          state.currentBlog = action.payload;
         }
-        state.currentBlog = null;
       })
       .addCase(thunks.updateBlog.rejected, handleRejected)
 
@@ -75,6 +224,8 @@ const blogSlice = createSlice({
       .addCase(thunks.deleteBlog.fulfilled, (state, action) => {
         state.loading = false;
         state.blogs = state.blogs.filter((b) => b.id !== action.payload);
+        state.drafts = state.drafts.filter((b) => b.id !== action.payload);
+        state.searchResults = state.searchResults.filter((b) => b.id !== action.payload);
       })
       .addCase(thunks.deleteBlog.rejected, handleRejected);
   },
@@ -0,0 +1,48 @@
+import type { Blog } from '../../types';
+
+/**
+ * Helpers for the draft / published / scheduled lifecycle of a post.
+ */
+
+/**
+ * Tells whether a post is visible to everyone.
+ * Scheduled posts go live once their `publish_at` time has passed.
+ * @param {Blog} blog - The post to check.
+ * @param {number} [now] - Current time in ms, injectable for consistency.
+ * @returns {boolean} True if the post is live.
+ */
+export function isPublished(blog: Pick<Blog, 'status' | 'publish_at'>, now: number = Date.now()): boolean {
+  return blog.status !== 'draft' && new Date(blog.publish_at).getTime() <= now;
+}
+
+/**
+ * Builds the short label shown on badges for posts that are not live yet.
+ * @param {Blog} blog - The post to describe.
+ * @returns {string | null} 'Draft', 'Scheduled for …', or null when live.
+ */
+export function getStatusLabel(blog: Pick<Blog, 'status' | 'publish_at'>): string | null {
+  if (blog.status === 'draft') return 'Draft';
+  if (!isPublished(blog)) {
+    const when = new Date(blog.publish_at).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    return `Scheduled for ${when}`;
+  }
+  return null;
+}
+
+/**
+ * Converts an ISO timestamp to the local-time format used by
+ * `<input type="datetime-local">` (YYYY-MM-DDTHH:mm).
+ * @param {string} iso - ISO timestamp.
+ * @returns {string} Value for the input.
+ */
+export function toDateTimeLocalValue(iso: string): string {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
@@ -1,62 +1,226 @@
 import { createAsyncThunk } from '@reduxjs/toolkit';
 import { blogService } from './blogService';
 import { supabase } from '../../lib/supabase';
+import type { Blog, BlogCursor, BlogFilters, BlogInput, BlogRevision, BlogStatus, ContentBlock, ProfileSummary, Tag } from '../../types';
 
 const ITEMS_PER_PAGE = 6;
 
 /**
  * Thunk to fetch a paginated list of blogs.
+ * Accepts the feed's sort and filters (tag slug, author, date range) next to `page`.
  */
 export const fetchBlogs = createAsyncThunk(
   'blog/fetchBlogs',
-  async (page: number = 1, { rejectWithValue }) => {
+  async ({ page = 1, ...filters }: { page?: number } & BlogFilters = {}, { rejectWithValue }) => {
     try {
-      const { data, count } = await blogService.fetchPaginatedBlogs(page, ITEMS_PER_PAGE);
+      const { data, count, tag: activeTag } = await blogService.fetchPaginatedBlogs(page, ITEMS_PER_PAGE, filters);
       return {
-        blogs: data,
+        blogs: data as unknown as Blog[],
         totalPages: Math.ceil(count / ITEMS_PER_PAGE),
         currentPage: page,
+        tag: activeTag,
       };
-    } catch (error: any) {
-      return rejectWithValue(error.message);
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+/**
+ * Thunk to fetch the next slice of the feed for infinite scroll.
+ * Pass `cursor: null` to start over from the newest post.
+ */
+export const fetchBlogFeed = createAsyncThunk(
+  'blog/fetchBlogFeed',
+  async ({ cursor, ...filters }: { cursor: BlogCursor | null } & BlogFilters, { rejectWithValue }) => {
+    try {
+      const { data, nextCursor, tag: activeTag } = await blogService.fetchBlogsAfter(cursor, ITEMS_PER_PAGE, filters);
+      return {
+        blogs: data as unknown as Blog[],
+        nextCursor,
+        tag: activeTag,
+      };
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+/**
+ * Thunk to fetch the authors offered by the feed's author filter.
+ */
+export const fetchAuthors = createAsyncThunk(
+  'blog/fetchAuthors',
+  async (_, { rejectWithValue }) => {
+    try {
+      return (await blogService.fetchAuthors()) as ProfileSummary[];
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+/**
+ * Thunk to run a full-text search, one page of results at a time.
+ */
+export const searchBlogs = createAsyncThunk(
+  'blog/searchBlogs',
+  async ({ query, page = 1 }: { query: string; page?: number }, { rejectWithValue }) => {
+    try {
+      const { data, count } = await blogService.searchBlogs(query, page, ITEMS_PER_PAGE);
+      return {
+        blogs: data as unknown as Blog[],
+        total: count,
+        totalPages: Math.ceil(count / ITEMS_PER_PAGE),
+        currentPage: page,
+      };
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+/**
+ * Thunk to fetch the logged-in author's drafts and scheduled posts.
+ */
+export const fetchDrafts = createAsyncThunk(
+  'blog/fetchDrafts',
+  async (_, { rejectWithValue }) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      return (await blogService.fetchDraftsByAuthor(user.id)) as Blog[];
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+/**
+ * Thunk to load a single blog straight from the server.
+ * Used when a post is opened from a shared link or after a page refresh.
+ * Resolves to null when the post does not exist.
+ */
+export const fetchBlogById = createAsyncThunk(
+  'blog/fetchBlogById',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      return (await blogService.fetchBlogById(id)) as Blog | null;
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+/**
+ * Thunk to load a single blog by its slug (or legacy ID / old slug).
+ * Used by ViewBlog for `/blog/:slug` links. Resolves to null when nothing matches.
+ */
+export const fetchBlogBySlug = createAsyncThunk(
+  'blog/fetchBlogBySlug',
+  async (slug: string, { rejectWithValue }) => {
+    try {
+      return (await blogService.fetchBlogBySlug(slug)) as Blog | null;
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+/**
+ * Thunk to fetch the revision history of a post (author only).
+ */
+export const fetchRevisions = createAsyncThunk(
+  'blog/fetchRevisions',
+  async (blogId: string, { rejectWithValue }) => {
+    try {
+      return (await blogService.fetchRevisions(blogId)) as BlogRevision[];
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+/**
+ * Thunk to fetch tag autocomplete suggestions.
+ */
+export const fetchTagSuggestions = createAsyncThunk(
+  'blog/fetchTagSuggestions',
+  async (query: string, { rejectWithValue }) => {
+    try {
+      return (await blogService.searchTags(query)) as Tag[];
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
     }
   }
 );
 
 /**
  * Thunk to create a new blog.
+ * `status` defaults to 'published' and `publishAt` to now.
+ * `tags` are tag names; new ones are created on the fly.
+ * If tagging fails the new row is removed again, so retrying doesn't create a duplicate post
+ * (its images are kept: the form reuses them on retry).
  */
 export const createBlog = createAsyncThunk(
   'blog/createBlog',
-  async ({ title, content, imageUrl }: { title: string; content: string; imageUrl?: string | null }, { rejectWithValue }) => {
+  async ({ title, content, imageUrl, contentBlocks, status = 'published', publishAt, tags = [] }: { title: string; content: string; imageUrl?: string | null; contentBlocks: ContentBlock[]; status?: BlogStatus; publishAt?: string; tags?: string[] }, { rejectWithValue }) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
       
-      return await blogService.createBlog(title, content, imageUrl || null, user.id);
-    } catch (error: any) {
-      return rejectWithValue(error.message);
+      const blog = (await blogService.createBlog(
+        {
+          title,
+          content,
+          image_url: imageUrl || null,
+          content_blocks: contentBlocks,
+          status,
+          publish_at: publishAt || new Date().toISOString(),
+        },
+        user.id
+      )) as Blog;
+      try {
+        return { ...blog, tags: await blogService.setBlogTags(blog.id, tags) };
+      } catch (tagError) {
+        await blogService.deleteBlogRow(blog.id);
+        throw tagError;
+      }
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
     }
   }
 );
 
 /**
  * Thunk to update an existing blog.
+ * Tags are only replaced when `tags` is passed.
+ * A tagging failure is reported as such, since the post itself has already been saved.
  */
 export const updateBlog = createAsyncThunk(
   'blog/updateBlog',
-  async ({ id, title, content, imageUrl }: { id: string; title: string; content: string; imageUrl?: string | null }, { rejectWithValue }) => {
+  async ({ id, title, content, imageUrl, contentBlocks, status, publishAt, tags }: { id: string; title: string; content: string; imageUrl?: string | null; contentBlocks?: ContentBlock[]; status?: BlogStatus; publishAt?: string; tags?: string[] }, { rejectWithValue }) => {
     try {
-      const updateData: any = { 
+      const updateData: Partial<BlogInput> & { updated_at: string } = { 
         title, 
         content, 
         updated_at: new Date().toISOString() 
       };
       if (imageUrl !== undefined) updateData.image_url = imageUrl;
+      if (contentBlocks !== undefined) updateData.content_blocks = contentBlocks;
+      if (status !== undefined) updateData.status = status;
+      if (publishAt !== undefined) updateData.publish_at = publishAt;
       
-      return await blogService.updateBlog(id, updateData);
-    } catch (error: any) {
-      return rejectWithValue(error.message);
+      const blog = (await blogService.updateBlog(id, updateData)) as Blog;
+      if (tags === undefined) return blog;
+      try {
+        return { ...blog, tags: await blogService.setBlogTags(id, tags) };
+      } catch (tagError) {
+        throw new Error(`Post saved, but its tags could not be updated: ${(tagError as Error).message}`);
+      }
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
     }
   }
 );
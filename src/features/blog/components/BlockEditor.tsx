@@ -0,0 +1,223 @@
+import type { ImageBlock, TextBlock } from '../../../types';
+import { createBlockId, createTextBlock } from '../contentBlocks';
+import { validateImageFile, createPreviewUrl, revokePreviewUrl } from '../../../lib/imageUpload';
+import { renderMarkdown } from '../../../lib/markdown';
+
+/**
+ * EditorBlock Type
+ * A content block as held by the editor. Image blocks may carry a local
+ * file that has not been uploaded yet, plus an Object URL to preview it.
+ */
+export type EditorBlock =
+  | TextBlock
+  | (ImageBlock & { file: File | null; previewUrl: string | null });
+
+/**
+ * Properties for the BlockEditor component.
+ * @property {EditorBlock[]} blocks - The blocks being edited, in display order.
+ * @property {(blocks: EditorBlock[]) => void} onChange - Receives the updated block list.
+ * @property {(message: string | null) => void} onError - Reports (or clears) file validation errors.
+ * @property {boolean} [disabled] - Locks all controls, e.g. while uploading.
+ */
+interface BlockEditorProps {
+  blocks: EditorBlock[];
+  onChange: (blocks: EditorBlock[]) => void;
+  onError: (message: string | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * BlockEditor Component
+ * * * Edits a post body made of text and image blocks.
+ * * FEATURES:
+ * - Add text blocks, or one image block per selected file.
+ * - Move blocks up and down, or delete them.
+ * - Write text blocks in Markdown with a live preview, or as plain text.
+ * - Caption each image.
+ * - Frees image preview URLs when their block is removed.
+ */
+export default function BlockEditor({ blocks, onChange, onError, disabled = false }: BlockEditorProps) {
+  /** Replaces one block with an updated copy */
+  const updateBlock = (id: string, patch: Partial<EditorBlock>) => {
+    onChange(blocks.map((block) => (block.id === id ? { ...block, ...patch } as EditorBlock : block)));
+  };
+
+  /** Swaps a block with its neighbour above (-1) or below (+1) */
+  const moveBlock = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= blocks.length) return;
+    const next = [...blocks];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  /** Deletes a block and releases its preview URL */
+  const removeBlock = (id: string) => {
+    const block = blocks.find((b) => b.id === id);
+    if (block?.type === 'image' && block.previewUrl) {
+      revokePreviewUrl(block.previewUrl);
+    }
+    onChange(blocks.filter((b) => b.id !== id));
+  };
+
+  const addTextBlock = () => {
+    onChange([...blocks, createTextBlock()]);
+  };
+
+  /** Creates an image block for each valid file the user picked */
+  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Reset the input so picking the same file again still fires onChange
+    e.target.value = '';
+    onError(null);
+
+    const added: EditorBlock[] = [];
+    for (const file of files) {
+      const validationError = validateImageFile(file);
+      if (validationError) {
+        onError(`${file.name}: ${validationError}`);
+        continue;
+      }
+      added.push({
+        id: createBlockId(),
+        type: 'image',
+        order: 0,
+        image_url: '',
+        caption: null,
+        file,
+        previewUrl: createPreviewUrl(file),
+      });
+    }
+
+    if (added.length > 0) {
+      onChange([...blocks, ...added]);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {blocks.length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-6 border-2 border-dashed border-gray-300 rounded-lg">
+          Your post is empty. Add a text or image block to get started.
+        </p>
+      )}
+
+      {blocks.map((block, index) => (
+        <div key={block.id} className="border border-gray-200 rounded-lg p-4 bg-gray-50">
+          {/* BLOCK TOOLBAR */}
+          <div className="flex items-center justify-between mb-3">
+            <span className="text-xs font-semibold uppercase tracking-wider text-gray-500">
+              {block.type === 'text' ? 'Text' : 'Image'} · {index + 1}
+            </span>
+            <div className="flex items-center gap-1">
+              {block.type === 'text' && (
+                <label className="flex items-center gap-1 mr-2 text-xs text-gray-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={block.format === 'markdown'}
+                    onChange={(e) => updateBlock(block.id, { format: e.target.checked ? 'markdown' : 'plain' })}
+                    disabled={disabled}
+                  />
+                  Markdown
+                </label>
+              )}
+              <button
+                type="button"
+                onClick={() => moveBlock(index, -1)}
+                disabled={disabled || index === 0}
+                className="px-2 py-1 rounded text-gray-600 hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label="Move block up"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => moveBlock(index, 1)}
+                disabled={disabled || index === blocks.length - 1}
+                className="px-2 py-1 rounded text-gray-600 hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label="Move block down"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => removeBlock(block.id)}
+                disabled={disabled}
+                className="px-2 py-1 rounded text-red-500 hover:bg-red-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label="Delete block"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+
+          {/* BLOCK BODY */}
+          {block.type === 'text' ? (
+            <div className={block.format === 'markdown' ? 'grid grid-cols-1 md:grid-cols-2 gap-3' : ''}>
+              <textarea
+                value={block.text}
+                onChange={(e) => updateBlock(block.id, { text: e.target.value })}
+                disabled={disabled}
+                rows={8}
+                className="input resize-y bg-white font-mono text-sm"
+                placeholder={block.format === 'markdown'
+                  ? '## Heading, **bold**, - lists, > quotes, `code`, [links](https://...)'
+                  : 'Write this section...'}
+              />
+              {/* LIVE PREVIEW: Same sanitized output the post page shows */}
+              {block.format === 'markdown' && (
+                <div
+                  className="markdown bg-white border border-gray-200 rounded-lg px-4 py-2 overflow-auto max-h-80 text-gray-700"
+                  aria-label="Markdown preview"
+                  dangerouslySetInnerHTML={{ __html: renderMarkdown(block.text) || '<p class="text-gray-400">Preview</p>' }}
+                />
+              )}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <img
+                src={block.previewUrl || block.image_url}
+                alt={block.caption || 'Block image'}
+                className="w-full max-h-72 object-cover rounded-lg border-2 border-gray-200"
+              />
+              <input
+                type="text"
+                value={block.caption || ''}
+                onChange={(e) => updateBlock(block.id, { caption: e.target.value })}
+                disabled={disabled}
+                className="input bg-white"
+                placeholder="Caption (optional)"
+              />
+            </div>
+          )}
+        </div>
+      ))}
+
+      {/* ADD BLOCK CONTROLS */}
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={addTextBlock}
+          disabled={disabled}
+          className="btn btn-outline"
+        >
+          + Text Block
+        </button>
+        <label
+          className={`btn btn-outline cursor-pointer ${disabled ? 'opacity-50 pointer-events-none' : ''}`}
+        >
+          + Image Block
+          <input
+            type="file"
+            className="hidden"
+            multiple
+            accept="image/jpeg,image/png,image/webp,image/gif"
+            onChange={handleImageSelect}
+            disabled={disabled}
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">PNG, JPG, WebP or GIF (MAX. 5MB each)</p>
+    </div>
+  );
+}
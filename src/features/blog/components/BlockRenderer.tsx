@@ -0,0 +1,60 @@
+import type { ContentBlock } from '../../../types';
+import { renderMarkdown } from '../../../lib/markdown';
+
+/**
+ * Properties for the BlockRenderer component.
+ * @property {ContentBlock[]} blocks - The post body, already in display order.
+ * @property {string} title - Post title, used as alt text for uncaptioned images.
+ */
+interface BlockRendererProps {
+  blocks: ContentBlock[];
+  title: string;
+}
+
+/**
+ * BlockRenderer Component
+ * * * Renders a post body made of text and image blocks.
+ * * FEATURES:
+ * - Markdown text blocks are rendered as sanitized HTML.
+ * - Plain text blocks keep their line breaks.
+ * - Image blocks are lazy-loaded and show their caption underneath.
+ * - Broken images hide themselves instead of showing a broken icon.
+ */
+export default function BlockRenderer({ blocks, title }: BlockRendererProps) {
+  return (
+    <div className="space-y-8">
+      {blocks.map((block) =>
+        block.type === 'text' ? (
+          block.format === 'markdown' ? (
+            <div
+              key={block.id}
+              className="markdown text-gray-700 leading-relaxed"
+              dangerouslySetInnerHTML={{ __html: renderMarkdown(block.text) }}
+            />
+          ) : (
+            <p key={block.id} className="text-gray-700 whitespace-pre-wrap leading-relaxed">
+              {block.text}
+            </p>
+          )
+        ) : (
+          <figure key={block.id}>
+            <img
+              src={block.image_url}
+              alt={block.caption || title}
+              loading="lazy"
+              className="w-full h-auto max-h-[32rem] object-cover rounded-lg shadow-md"
+              onError={(e) => {
+                e.currentTarget.style.display = 'none';
+              }}
+            />
+            {block.caption && (
+              <figcaption className="mt-2 text-sm text-gray-500 text-center italic">
+                {block.caption}
+              </figcaption>
+            )}
+          </figure>
+        )
+      )}
+    </div>
+  );
+}
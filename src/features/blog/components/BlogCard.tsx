@@ -1,5 +1,10 @@
 import { Link } from 'react-router-dom';
-import type { Blog } from '../../../types';
+import type { Blog, ImageBlock, TextBlock } from '../../../types';
+import { getBlogBlocks, textBlockToPlainText } from '../contentBlocks';
+import { getStatusLabel } from '../blogStatus';
+import TagChips from './TagChips';
+import Avatar from '../../../components/Avatar';
+import { getDisplayName } from '../../../lib/profile';
 
 interface BlogCardProps {
   blog: Blog;
@@ -8,15 +13,28 @@ interface BlogCardProps {
   onDelete: (id: string) => void;
 }
 
+/**
+ * BlogCard Component
+ * Summary card for the blog grid. The thumbnail and excerpt come from the
+ * post's first image block and first text block (legacy posts included).
+ * Markdown is stripped from the excerpt.
+ * The author's avatar and display name sit next to the date and link to their profile.
+ */
 export default function BlogCard({ blog, isOwner, onEdit, onDelete }: BlogCardProps) {
+  const blocks = getBlogBlocks(blog);
+  const thumbnail = blocks.find((block): block is ImageBlock => block.type === 'image');
+  const excerpt = blocks.find((block): block is TextBlock => block.type === 'text');
+  const statusLabel = getStatusLabel(blog);
+
   return (
     <div className="card hover:shadow-lg transition-shadow flex flex-col h-full">
       {/* Featured Image */}
-      {blog.image_url && (
-        <Link to={`/blog/${blog.id}`}>
+      {thumbnail && (
+        <Link to={`/blog/${blog.slug}`}>
           <img
-            src={blog.image_url}
-            alt={blog.title}
+            src={thumbnail.image_url}
+            alt={thumbnail.caption || blog.title}
+            loading="lazy"
             className="w-full h-48 object-cover rounded-t-lg mb-4 -mt-6 -mx-6"
             onError={(e) => {
               // Hide image if it fails to load
@@ -25,27 +43,46 @@ export default function BlogCard({ blog, isOwner, onEdit, onDelete }: BlogCardPr
           />
         </Link>
       )}
+      {/* Status Badge - Drafts and scheduled posts only */}
+      {statusLabel && (
+        <span className="self-start text-xs font-semibold uppercase tracking-wider bg-amber-100 text-amber-800 px-2 py-1 rounded-full mb-2">
+          {statusLabel}
+        </span>
+      )}
       {/* Make title and content clickable */}
-      <Link to={`/blog/${blog.id}`} className="flex-1">
+      <Link to={`/blog/${blog.slug}`} className="flex-1">
         <h2 className="text-xl font-bold text-gray-800 mb-2 line-clamp-2 hover:text-primary-600 transition-colors">
           {blog.title}
         </h2>
-        <p className="text-gray-600 mb-4 line-clamp-3">
-          {blog.content}
-        </p>
+        {excerpt && (
+          <p className="text-gray-600 mb-4 line-clamp-3">
+            {textBlockToPlainText(excerpt)}
+          </p>
+        )}
       </Link>
+
+      <TagChips tags={blog.tags} className="mb-4" />
       
-      <div className="text-sm text-gray-500 mb-4">
-        {new Date(blog.created_at).toLocaleDateString('en-US', {
-          year: 'numeric',
-          month: 'long',
-          day: 'numeric',
-        })}
+      <div className="flex items-center gap-2 text-sm text-gray-500 mb-4 min-w-0">
+        <Link to={`/u/${blog.author_id}`} className="flex items-center gap-2 min-w-0 group">
+          <Avatar profile={blog.author} size="sm" />
+          <span className="font-medium text-gray-700 truncate group-hover:text-primary-600 transition-colors">
+            {getDisplayName(blog.author)}
+          </span>
+        </Link>
+        <span aria-hidden="true">·</span>
+        <span className="shrink-0">
+          {new Date(blog.created_at).toLocaleDateString('en-US', {
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric',
+          })}
+        </span>
       </div>
 
       {/* Read More Button - Always visible */}
       <Link 
-        to={`/blog/${blog.id}`}
+        to={`/blog/${blog.slug}`}
         className="btn btn-outline mb-4"
       >
         Read More
@@ -0,0 +1,106 @@
+import type { BlogSort, ProfileSummary } from '../../../types';
+import type { FeedFilters } from '../useBlogList';
+
+/** Labels for the sort dropdown, in display order */
+const SORT_LABELS: Record<BlogSort, string> = {
+  newest: 'Newest',
+  oldest: 'Oldest',
+  'most-commented': 'Most commented',
+  updated: 'Recently updated',
+};
+
+/**
+ * Properties for the BlogFilterBar component.
+ * @property {FeedFilters} filters - The sort and filters currently applied.
+ * @property {ProfileSummary[]} authors - Options for the author dropdown.
+ * @property {(filters: FeedFilters) => void} onChange - Called with the full new set of filters.
+ */
+interface BlogFilterBarProps {
+  filters: FeedFilters;
+  authors: ProfileSummary[];
+  onChange: (filters: FeedFilters) => void;
+}
+
+/**
+ * BlogFilterBar Component
+ * * * Sort and filter controls shown above the blog grid.
+ * * FEATURES:
+ * - Sort: Newest, oldest, most commented or recently updated.
+ * - Filters: One author and a created-on date range.
+ * - Reset: Clears everything back to the default newest-first feed.
+ */
+export default function BlogFilterBar({ filters, authors, onChange }: BlogFilterBarProps) {
+  const isFiltered = !!(filters.author || filters.from || filters.to || (filters.sort && filters.sort !== 'newest'));
+
+  /** Replaces a single control's value, blank meaning "not set" */
+  const update = (key: keyof FeedFilters, value: string) => {
+    onChange({ ...filters, [key]: value || undefined });
+  };
+
+  return (
+    <div className="card mb-8 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+      <div>
+        <label htmlFor="feed-sort" className="label">Sort by</label>
+        <select
+          id="feed-sort"
+          value={filters.sort ?? 'newest'}
+          onChange={(e) => update('sort', e.target.value)}
+          className="input"
+        >
+          {(Object.keys(SORT_LABELS) as BlogSort[]).map((sort) => (
+            <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="feed-author" className="label">Author</label>
+        <select
+          id="feed-author"
+          value={filters.author ?? ''}
+          onChange={(e) => update('author', e.target.value)}
+          className="input"
+        >
+          <option value="">All authors</option>
+          {authors.map((author) => (
+            <option key={author.id} value={author.id}>
+              {author.display_name || 'Unnamed author'}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="feed-from" className="label">From</label>
+        <input
+          id="feed-from"
+          type="date"
+          value={filters.from ?? ''}
+          max={filters.to}
+          onChange={(e) => update('from', e.target.value)}
+          className="input"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="feed-to" className="label">To</label>
+        <input
+          id="feed-to"
+          type="date"
+          value={filters.to ?? ''}
+          min={filters.from}
+          onChange={(e) => update('to', e.target.value)}
+          className="input"
+        />
+      </div>
+
+      <button
+        onClick={() => onChange({})}
+        disabled={!isFiltered}
+        className="btn btn-outline"
+      >
+        Clear filters
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { highlightTerms } from '../../../lib/highlight';
+
+/**
+ * Properties for the HighlightedText component.
+ * @property {string} text - Plain text to display.
+ * @property {string[]} terms - Search terms to mark, from getSearchTerms.
+ */
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+}
+
+/**
+ * HighlightedText Component
+ * Renders plain text with every search-term match wrapped in <mark>.
+ */
+export default function HighlightedText({ text, terms }: HighlightedTextProps) {
+  return (
+    <>
+      {highlightTerms(text, terms).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,55 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Properties for the InfiniteScrollTrigger component.
+ * @property {boolean} hasMore - Whether another slice can be loaded.
+ * @property {boolean} loading - True while a slice is being fetched.
+ * @property {() => void} onLoadMore - Callback that fetches the next slice.
+ */
+interface InfiniteScrollTriggerProps {
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+}
+
+/** Start loading this far before the bottom of the list scrolls into view */
+const PRELOAD_MARGIN = '400px';
+
+/**
+ * InfiniteScrollTrigger Component
+ * * * Sits under the blog grid and loads the next slice as it nears the viewport.
+ * * FEATURES:
+ * - IntersectionObserver: No scroll listeners, so scrolling stays smooth.
+ * - Fallback Button: "Load more" still works where the observer never fires.
+ * - End Marker: Tells the reader when there is nothing older left.
+ */
+export default function InfiniteScrollTrigger({ hasMore, loading, onLoadMore }: InfiniteScrollTriggerProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onLoadMore();
+      },
+      { rootMargin: PRELOAD_MARGIN }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasMore, loading, onLoadMore]);
+
+  if (!hasMore) {
+    return <p className="text-center text-gray-500 py-4">You've reached the end.</p>;
+  }
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-4">
+      <button onClick={onLoadMore} disabled={loading} className="btn btn-outline">
+        {loading ? 'Loading...' : 'Load more'}
+      </button>
+    </div>
+  );
+}
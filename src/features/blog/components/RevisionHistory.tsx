@@ -0,0 +1,213 @@
+import { useState, useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import type { AppDispatch, RootState } from '../../../app/store';
+import type { Blog, BlogRevision } from '../../../types';
+import { fetchRevisions, updateBlog } from '../blogSlice';
+import { getBlogBlocks, getBlockImageUrls, textBlockToPlainText } from '../contentBlocks';
+import { diffWords } from '../../../lib/wordDiff';
+
+/** Select value that stands for the live version of the post */
+const CURRENT_VERSION = 'current';
+
+/**
+ * Properties for the RevisionHistory component.
+ * @property {Blog} blog - The current version of the post (the viewer must own it).
+ */
+interface RevisionHistoryProps {
+  blog: Blog;
+}
+
+/**
+ * Flattens a version of a post into text for diffing.
+ * Images become `[Image: caption]` lines so added or removed images show up too.
+ */
+function versionToText(version: Blog | BlogRevision): string {
+  const body = getBlogBlocks(version)
+    .map((block) =>
+      block.type === 'text'
+        ? textBlockToPlainText(block)
+        : `[Image${block.caption ? `: ${block.caption}` : ''}]`
+    )
+    .join('\n\n');
+  return `${version.title}\n\n${body}`;
+}
+
+/** Formats a timestamp for the history list */
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * RevisionHistory Component
+ * * * Owner-only "History" panel shown under a post.
+ * * FEATURES:
+ * - Lists every saved version with its timestamp.
+ * - Word-level diff between any two versions (or a version and the live post).
+ * - One-click restore through the regular updateBlog thunk, which itself
+ *   records the replaced version, so a restore can be undone too.
+ */
+export default function RevisionHistory({ blog }: RevisionHistoryProps) {
+  const dispatch = useDispatch<AppDispatch>();
+  const { revisions, loading } = useSelector((state: RootState) => state.blog);
+
+  /** @type {boolean} Whether the panel is expanded */
+  const [isOpen, setIsOpen] = useState(false);
+  /** @type {string | null} Older side of the diff; null picks the latest revision */
+  const [fromId, setFromId] = useState<string | null>(null);
+  /** @type {string} Newer side of the diff */
+  const [toId, setToId] = useState<string>(CURRENT_VERSION);
+  /** @type {string | null} Revision being restored, for the button spinner */
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  // Load the history the first time the panel opens, and again after every save
+  useEffect(() => {
+    if (!isOpen) return;
+    const request = dispatch(fetchRevisions(blog.id));
+    return () => {
+      request.abort();
+    };
+  }, [isOpen, blog.id, blog.updated_at, dispatch]);
+
+  /** Looks up a version by select value */
+  const findVersion = (versionId: string | null): Blog | BlogRevision | null => {
+    if (versionId === CURRENT_VERSION) return blog;
+    if (versionId === null) return revisions[0] ?? null;
+    return revisions.find((r) => r.id === versionId) ?? null;
+  };
+
+  /**
+   * Replaces the post with a previous version.
+   * @param {BlogRevision} revision - The version to bring back.
+   */
+  const handleRestore = async (revision: BlogRevision) => {
+    const contentBlocks = getBlogBlocks(revision);
+    setRestoringId(revision.id);
+    await dispatch(updateBlog({
+      id: blog.id,
+      title: revision.title,
+      content: revision.content,
+      contentBlocks,
+      imageUrl: getBlockImageUrls(contentBlocks)[0] ?? null,
+    }));
+    setRestoringId(null);
+    setFromId(null);
+    setToId(CURRENT_VERSION);
+  };
+
+  const fromVersion = findVersion(fromId);
+  const toVersion = findVersion(toId);
+  const segments = fromVersion && toVersion
+    ? diffWords(versionToText(fromVersion), versionToText(toVersion))
+    : [];
+
+  /** Options shared by both "compare" selects */
+  const versionOptions = (
+    <>
+      <option value={CURRENT_VERSION}>Current version</option>
+      {revisions.map((revision) => (
+        <option key={revision.id} value={revision.id}>
+          {formatTimestamp(revision.saved_at)} · {revision.title}
+        </option>
+      ))}
+    </>
+  );
+
+  return (
+    <section className="card mt-8">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isOpen}
+      >
+        <h2 className="text-xl font-bold text-gray-900">History</h2>
+        <span className="text-sm text-primary-600 font-medium">{isOpen ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-6 space-y-6">
+          {loading && revisions.length === 0 ? (
+            <p className="text-gray-500">Loading history...</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-gray-500">No earlier versions yet. Each time you edit this post, the previous version is saved here.</p>
+          ) : (
+            <>
+              {/* VERSION LIST */}
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {revisions.map((revision) => (
+                  <li key={revision.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-800 truncate">{revision.title}</p>
+                      <p className="text-xs text-gray-500">Saved {formatTimestamp(revision.saved_at)}</p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => {
+                          setFromId(revision.id);
+                          setToId(CURRENT_VERSION);
+                        }}
+                        className="btn btn-outline text-sm"
+                      >
+                        Compare
+                      </button>
+                      <button
+                        onClick={() => handleRestore(revision)}
+                        disabled={restoringId !== null}
+                        className="btn btn-primary text-sm"
+                      >
+                        {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              {/* DIFF VIEW */}
+              <div>
+                <div className="flex flex-col sm:flex-row gap-3 mb-4">
+                  <label className="flex-1">
+                    <span className="label">From</span>
+                    <select
+                      value={fromId ?? revisions[0].id}
+                      onChange={(e) => setFromId(e.target.value)}
+                      className="input"
+                    >
+                      {versionOptions}
+                    </select>
+                  </label>
+                  <label className="flex-1">
+                    <span className="label">To</span>
+                    <select
+                      value={toId}
+                      onChange={(e) => setToId(e.target.value)}
+                      className="input"
+                    >
+                      {versionOptions}
+                    </select>
+                  </label>
+                </div>
+
+                <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 whitespace-pre-wrap leading-relaxed text-gray-700 max-h-96 overflow-auto">
+                  {segments.map((segment, index) =>
+                    segment.type === 'added' ? (
+                      <ins key={index} className="bg-green-100 text-green-800 no-underline">{segment.text}</ins>
+                    ) : segment.type === 'removed' ? (
+                      <del key={index} className="bg-red-100 text-red-700">{segment.text}</del>
+                    ) : (
+                      <span key={index}>{segment.text}</span>
+                    )
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,35 @@
+import { Link } from 'react-router-dom';
+import type { Tag } from '../../../types';
+
+/**
+ * Properties for the TagChips component.
+ * @property {Tag[]} [tags] - Tags to show; nothing renders when empty.
+ * @property {string} [className] - Extra classes for the wrapper.
+ */
+interface TagChipsProps {
+  tags?: Tag[];
+  className?: string;
+}
+
+/**
+ * TagChips Component
+ * Row of tag pills, each linking to the `/tag/:slug` listing.
+ */
+export default function TagChips({ tags, className = '' }: TagChipsProps) {
+  if (!tags || tags.length === 0) return null;
+
+  return (
+    <ul className={`flex flex-wrap gap-2 ${className}`}>
+      {tags.map((tag) => (
+        <li key={tag.id}>
+          <Link
+            to={`/tag/${tag.slug}`}
+            className="inline-block text-xs font-medium bg-primary-50 text-primary-700 px-2 py-1 rounded-full hover:bg-primary-100 transition-colors"
+          >
+            #{tag.name}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState, useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import type { AppDispatch, RootState } from '../../../app/store';
+import { fetchTagSuggestions } from '../blogSlice';
+import { slugify } from '../../../lib/slugify';
+
+/** Pause after the last keystroke before asking for suggestions */
+const SUGGEST_DELAY_MS = 250;
+
+/** Most tags a single post can carry */
+const MAX_TAGS = 10;
+
+/**
+ * Properties for the TagInput component.
+ * @property {string[]} tags - Tag names currently on the post.
+ * @property {(tags: string[]) => void} onChange - Called with the new list after an add or remove.
+ * @property {boolean} [disabled] - Locks the input while the form saves.
+ */
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * TagInput Component
+ * * * Chip-style tag field for BlogForm.
+ * * FEATURES:
+ * - Enter or comma turns the typed text into a tag; Backspace on an empty field removes the last one.
+ * - Debounced autocomplete from existing tags, so writers reuse labels instead of near-duplicates.
+ * - Tags that differ only in case or accents count as the same tag.
+ */
+export default function TagInput({ tags, onChange, disabled = false }: TagInputProps) {
+  const dispatch = useDispatch<AppDispatch>();
+  const { tagSuggestions } = useSelector((state: RootState) => state.blog);
+
+  /** @type {string} Text typed but not yet turned into a tag */
+  const [query, setQuery] = useState('');
+
+  // Ask for suggestions once the writer pauses typing
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) return;
+
+    let request: { abort: () => void } | null = null;
+    const timer = setTimeout(() => {
+      request = dispatch(fetchTagSuggestions(trimmed));
+    }, SUGGEST_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      request?.abort();
+    };
+  }, [query, dispatch]);
+
+  const takenSlugs = new Set(tags.map(slugify));
+  const suggestions = query.trim()
+    ? tagSuggestions.filter((tag) => !takenSlugs.has(tag.slug))
+    : [];
+
+  /**
+   * Adds a tag unless it is empty, a duplicate, or over the limit.
+   * @param {string} name - The tag as typed or picked.
+   */
+  const addTag = (name: string) => {
+    const trimmed = name.trim();
+    setQuery('');
+    if (!slugify(trimmed) || takenSlugs.has(slugify(trimmed)) || tags.length >= MAX_TAGS) return;
+    onChange([...tags, trimmed]);
+  };
+
+  /** Removes the tag at the given position */
+  const removeTag = (index: number) => {
+    onChange(tags.filter((_, i) => i !== index));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(query);
+    } else if (e.key === 'Backspace' && !query && tags.length > 0) {
+      removeTag(tags.length - 1);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="input flex flex-wrap items-center gap-2">
+        {tags.map((tag, index) => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-1 text-sm bg-primary-50 text-primary-700 px-2 py-0.5 rounded-full"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => removeTag(index)}
+              disabled={disabled}
+              className="text-primary-500 hover:text-primary-700"
+              aria-label={`Remove tag ${tag}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          id="tags"
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => query.trim() && addTag(query)}
+          className="flex-1 min-w-[8rem] outline-none bg-transparent"
+          placeholder={tags.length >= MAX_TAGS ? `Up to ${MAX_TAGS} tags` : 'Add a tag and press Enter'}
+          disabled={disabled || tags.length >= MAX_TAGS}
+          autoComplete="off"
+        />
+      </div>
+
+      {/* SUGGESTIONS DROPDOWN */}
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-auto">
+          {suggestions.map((tag) => (
+            <li key={tag.id}>
+              <button
+                type="button"
+                // mousedown fires before the input's blur, so the pick isn't lost
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTag(tag.name);
+                }}
+                className="w-full text-left px-4 py-2 hover:bg-gray-100"
+              >
+                #{tag.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
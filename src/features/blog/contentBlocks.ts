@@ -0,0 +1,100 @@
+import type { Blog, ContentBlock, ImageBlock, TextBlock } from '../../types';
+import { markdownToPlainText } from '../../lib/markdown';
+
+/**
+ * Helpers for working with the block-based post body stored in
+ * the `content_blocks` JSONB column.
+ */
+
+/**
+ * Generates a block ID that is unique within a post.
+ * @returns {string} A random identifier.
+ */
+export function createBlockId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Creates an empty text block. New blocks are written in Markdown.
+ * @param {string} [text] - Optional initial text.
+ * @returns {TextBlock} The new block (order is assigned when saving).
+ */
+export function createTextBlock(text = ''): TextBlock {
+  return { id: createBlockId(), type: 'text', order: 0, text, format: 'markdown' };
+}
+
+/**
+ * Creates an image block for an already-uploaded image.
+ * @param {string} imageUrl - Public URL of the image.
+ * @param {string | null} [caption] - Optional caption.
+ * @returns {ImageBlock} The new block (order is assigned when saving).
+ */
+export function createImageBlock(imageUrl: string, caption: string | null = null): ImageBlock {
+  return { id: createBlockId(), type: 'image', order: 0, image_url: imageUrl, caption };
+}
+
+/**
+ * Sorts blocks by their `order` field and renumbers them 0..n-1.
+ * @param {ContentBlock[]} blocks - Blocks in any order.
+ * @returns {ContentBlock[]} A new, consistently ordered array.
+ */
+export function normalizeBlocks(blocks: ContentBlock[]): ContentBlock[] {
+  return [...blocks]
+    .sort((a, b) => a.order - b.order)
+    .map((block, index) => ({ ...block, order: index }));
+}
+
+/**
+ * Returns the blocks for a post, falling back to the legacy
+ * `content` / `image_url` columns for posts saved before blocks existed.
+ * @param {Blog} blog - The post to read.
+ * @returns {ContentBlock[]} Ordered blocks, never null.
+ */
+export function getBlogBlocks(blog: Pick<Blog, 'content' | 'image_url' | 'content_blocks'>): ContentBlock[] {
+  if (blog.content_blocks && blog.content_blocks.length > 0) {
+    return normalizeBlocks(blog.content_blocks);
+  }
+
+  // Same shape as the backfill in 05_add_content_blocks.sql
+  const legacy: ContentBlock[] = [];
+  if (blog.image_url) {
+    legacy.push({ id: 'legacy_image', type: 'image', order: legacy.length, image_url: blog.image_url, caption: null });
+  }
+  if (blog.content) {
+    legacy.push({ id: 'legacy_text', type: 'text', order: legacy.length, text: blog.content });
+  }
+  return legacy;
+}
+
+/**
+ * Returns the readable text of a text block, without Markdown syntax.
+ * @param {TextBlock} block - The block to read.
+ * @returns {string} Plain text.
+ */
+export function textBlockToPlainText(block: TextBlock): string {
+  return block.format === 'markdown' ? markdownToPlainText(block.text) : block.text.trim();
+}
+
+/**
+ * Builds the plain-text fallback stored in the `content` column.
+ * @param {ContentBlock[]} blocks - The post body.
+ * @returns {string} All text blocks joined by blank lines.
+ */
+export function blocksToPlainText(blocks: ContentBlock[]): string {
+  return blocks
+    .filter((block): block is TextBlock => block.type === 'text')
+    .map(textBlockToPlainText)
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Collects every image URL referenced by a post's blocks.
+ * @param {ContentBlock[]} blocks - The post body.
+ * @returns {string[]} Image URLs in block order.
+ */
+export function getBlockImageUrls(blocks: ContentBlock[]): string[] {
+  return blocks
+    .filter((block): block is ImageBlock => block.type === 'image')
+    .map((block) => block.image_url);
+}
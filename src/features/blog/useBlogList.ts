@@ -1,48 +1,147 @@
-import { useEffect } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import type { AppDispatch, RootState } from '../../app/store';
 import { 
   fetchBlogs, 
+  fetchBlogFeed,
+  fetchAuthors,
   deleteBlog, 
-  setCurrentBlog, 
   clearError 
 } from './blogSlice'; // Thunks are re-exported from here
-import type { Blog } from '../../types';
+import type { Blog, BlogFilters, BlogSort } from '../../types';
+
+/**
+ * How the feed is paged: appended slices as the reader scrolls,
+ * or classic numbered pages.
+ */
+export type FeedMode = 'infinite' | 'pages';
+
+/** localStorage key remembering the reader's preferred FeedMode */
+const FEED_MODE_KEY = 'roblog:feed-mode';
+
+/** Reads the saved FeedMode, defaulting to infinite scroll */
+function loadFeedMode(): FeedMode {
+  return localStorage.getItem(FEED_MODE_KEY) === 'pages' ? 'pages' : 'infinite';
+}
+
+/** Sort orders accepted from the `?sort=` query parameter */
+const BLOG_SORTS: BlogSort[] = ['newest', 'oldest', 'most-commented', 'updated'];
+
+/**
+ * The feed controls that live in the URL query string
+ * (the tag comes from the `/tag/:slug` path instead).
+ */
+export type FeedFilters = Omit<BlogFilters, 'tag'>;
 
 /**
  * Custom hook to manage the logic for the BlogList component.
  * Separates business logic and Redux interactions from the UI.
+ * Infinite scroll uses keyset pagination (fetchBlogFeed); the numbered
+ * pages mode keeps the offset-based fetchBlogs.
+ * Sort, filters and page are read from and written to the URL
+ * (`?sort=&author=&from=&to=&page=`), so every view can be bookmarked.
+ * @param {string} [tag] - Tag slug to filter the feed by (from `/tag/:slug`).
  */
-export function useBlogList() {
+export function useBlogList(tag?: string) {
   const dispatch = useDispatch<AppDispatch>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // URL State
+  const sortParam = searchParams.get('sort') as BlogSort | null;
+  const sort: BlogSort = sortParam && BLOG_SORTS.includes(sortParam) ? sortParam : 'newest';
+  const author = searchParams.get('author') || undefined;
+  const from = searchParams.get('from') || undefined;
+  const to = searchParams.get('to') || undefined;
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const filters: FeedFilters = { sort, author, from, to };
 
   // Global State
-  const { blogs, loading, error, totalPages, currentPage } = useSelector(
+  const { blogs, authors, loading, error, totalPages, currentPage, nextCursor, activeTag } = useSelector(
     (state: RootState) => state.blog
   );
   const { user } = useSelector((state: RootState) => state.auth);
 
-  // Initial Fetch
+  /** @type {FeedMode} Infinite scroll or numbered pages */
+  const [mode, setMode] = useState<FeedMode>(loadFeedMode);
+  /** The "load more" request in flight, aborted when the filters change */
+  const loadMoreRequest = useRef<{ abort: () => void } | null>(null);
+
+  // Author filter options
   useEffect(() => {
-    dispatch(fetchBlogs(1));
+    dispatch(fetchAuthors());
   }, [dispatch]);
 
+  // Fetch whenever the URL, the tag or the mode changes
+  // (so back/forward and refresh restore the same view)
+  useEffect(() => {
+    const request = mode === 'pages'
+      ? dispatch(fetchBlogs({ page, tag, sort, author, from, to }))
+      : dispatch(fetchBlogFeed({ cursor: null, tag, sort, author, from, to }));
+
+    // A response for the old view must not land in the new one
+    return () => {
+      request.abort();
+      loadMoreRequest.current?.abort();
+      loadMoreRequest.current = null;
+    };
+  }, [dispatch, mode, page, tag, sort, author, from, to]);
+
+  /**
+   * Writes feed controls to the URL; defaults are left out to keep links short.
+   * @param {FeedFilters} next - Sort and filters to show.
+   * @param {number} [nextPage=1] - Page to show (numbered pages mode only).
+   */
+  const writeParams = (next: FeedFilters, nextPage = 1) => {
+    const params = new URLSearchParams();
+    if (next.sort && next.sort !== 'newest') params.set('sort', next.sort);
+    if (next.author) params.set('author', next.author);
+    if (next.from) params.set('from', next.from);
+    if (next.to) params.set('to', next.to);
+    if (nextPage > 1) params.set('page', String(nextPage));
+    setSearchParams(params);
+  };
+
+  /**
+   * Switches between infinite scroll and numbered pages and remembers the choice.
+   */
+  const handleModeChange = (next: FeedMode) => {
+    localStorage.setItem(FEED_MODE_KEY, next);
+    setMode(next);
+    // A page number means nothing while scrolling
+    writeParams(filters);
+  };
+
+  /**
+   * Applies new sort or filters, starting again from the first page.
+   */
+  const handleFiltersChange = (next: FeedFilters) => {
+    writeParams(next);
+  };
+
+  /**
+   * Appends the next slice of the feed (infinite scroll mode).
+   */
+  const handleLoadMore = () => {
+    if (loading || !nextCursor) return;
+    loadMoreRequest.current = dispatch(fetchBlogFeed({ cursor: nextCursor, tag, ...filters }));
+  };
+
   /**
    * Navigates to a specific page of blogs and scrolls to top.
    */
-  const handlePageChange = (page: number) => {
-    dispatch(fetchBlogs(page));
+  const handlePageChange = (nextPage: number) => {
+    writeParams(filters, nextPage);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   /**
-   * Prepares a blog for editing and navigates to the edit screen.
+   * Navigates to the edit screen for a blog.
+   * The form loads the post itself from the URL.
    */
   const handleEdit = (blog: Blog) => {
-    dispatch(setCurrentBlog(blog));
-    navigate('/edit');
+    navigate(`/edit/${blog.id}`);
   };
 
   /**
@@ -54,7 +153,10 @@ export function useBlogList() {
     if (window.confirm('Are you sure you want to delete this blog?')) {
       await dispatch(deleteBlog(id));
       // Refresh the current page to update the list
-      dispatch(fetchBlogs(currentPage));
+      // (in infinite scroll mode the post simply drops out of the loaded slices)
+      if (mode === 'pages') {
+        dispatch(fetchBlogs({ page: currentPage, tag, ...filters }));
+      }
     }
   };
 
@@ -69,8 +171,16 @@ export function useBlogList() {
     error,
     totalPages,
     currentPage,
+    hasMore: nextCursor !== null,
+    activeTag,
+    filters,
+    authors,
+    mode,
     user,
+    handleModeChange,
+    handleFiltersChange,
     handlePageChange,
+    handleLoadMore,
     handleEdit,
     handleDelete,
     handleDismissError,
@@ -0,0 +1,126 @@
+import { useState, useEffect } from 'react';
+import type { EditorBlock } from './components/BlockEditor';
+import {
+  loadLocalDraft,
+  saveLocalDraft,
+  deleteLocalDraft,
+  type LocalDraft,
+} from '../../lib/draftStorage';
+
+/** Quiet period after the last keystroke before a snapshot is written */
+const AUTOSAVE_DELAY_MS = 1000;
+
+/**
+ * Options for the useDraftAutosave hook.
+ * @property {string | null} key - Storage key, or null while the user is unknown.
+ * @property {boolean} ready - False until the form holds its initial data (e.g. the post being edited).
+ * @property {string | null} serverUpdatedAt - `updated_at` of the server copy; older local drafts are discarded.
+ * @property {string} title - Current title.
+ * @property {EditorBlock[]} blocks - Current body.
+ * @property {boolean} isDirty - True when the form has changes not saved to the server.
+ */
+interface DraftAutosaveOptions {
+  key: string | null;
+  ready: boolean;
+  serverUpdatedAt: string | null;
+  title: string;
+  blocks: EditorBlock[];
+  isDirty: boolean;
+}
+
+/**
+ * Custom hook that protects BlogForm input against crashes and expired sessions.
+ * - Debounced autosave of unsaved changes to IndexedDB.
+ * - On mount, surfaces a local draft that is newer than the server copy.
+ * - Warns through `beforeunload` while there are unsaved changes.
+ */
+export function useDraftAutosave({ key, ready, serverUpdatedAt, title, blocks, isDirty }: DraftAutosaveOptions) {
+  /** @type {LocalDraft | null} A newer local draft the user can restore */
+  const [recoveredDraft, setRecoveredDraft] = useState<LocalDraft | null>(null);
+
+  /**
+   * RECOVERY EFFECT
+   * Looks for a local draft once the form's own data has loaded.
+   */
+  useEffect(() => {
+    if (!key || !ready) return;
+
+    let cancelled = false;
+    loadLocalDraft(key).then((draft) => {
+      if (cancelled || !draft) return;
+      const serverTime = serverUpdatedAt ? new Date(serverUpdatedAt).getTime() : 0;
+      if (draft.savedAt > serverTime) {
+        setRecoveredDraft(draft);
+      } else {
+        // The server copy is newer, so the local one is stale
+        deleteLocalDraft(key);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, ready, serverUpdatedAt]);
+
+  /**
+   * AUTOSAVE EFFECT
+   * Writes a snapshot after the user pauses typing.
+   */
+  useEffect(() => {
+    if (!key || !isDirty) return;
+
+    const timer = setTimeout(() => {
+      saveLocalDraft(key, {
+        title,
+        // Object URLs don't survive a reload, so only the files are kept
+        blocks: blocks.map((block) =>
+          block.type === 'image' ? { ...block, previewUrl: undefined } : block
+        ),
+        savedAt: Date.now(),
+      });
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [key, isDirty, title, blocks]);
+
+  /**
+   * UNLOAD GUARD EFFECT
+   * Asks the browser to confirm before closing a tab with unsaved changes.
+   */
+  useEffect(() => {
+    if (!isDirty) return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
+  /** Hands back the recovered draft and hides the restore prompt */
+  const acceptRecoveredDraft = () => {
+    const draft = recoveredDraft;
+    setRecoveredDraft(null);
+    return draft;
+  };
+
+  /** Throws the recovered draft away */
+  const discardRecoveredDraft = () => {
+    if (key) deleteLocalDraft(key);
+    setRecoveredDraft(null);
+  };
+
+  /** Removes the local copy, e.g. after a successful save */
+  const clearLocalDraft = async () => {
+    if (key) await deleteLocalDraft(key);
+  };
+
+  return {
+    recoveredDraft,
+    acceptRecoveredDraft,
+    discardRecoveredDraft,
+    clearLocalDraft,
+  };
+}
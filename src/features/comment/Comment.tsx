@@ -1,8 +1,21 @@
+import { Link } from 'react-router-dom';
 import { useComments } from './useComments';
+import Avatar from '../../components/Avatar';
+import { getDisplayName } from '../../lib/profile';
+import { MAX_REPLY_DEPTH, type CommentNode } from './commentTree';
+import { MAX_COMMENT_IMAGES, getCommentImages, type CommentImageDraft } from './commentImages';
+import type { CommentWrite } from '../../types';
+
+/** Status line for an unconfirmed write, by action */
+const WRITE_LABELS: Record<CommentWrite['action'], { sending: string; failed: string }> = {
+  create: { sending: 'Sending...', failed: "Couldn't post this comment." },
+  edit: { sending: 'Saving...', failed: "Couldn't save your edit." },
+  delete: { sending: 'Deleting...', failed: "Couldn't delete this comment." },
+};
 
 /**
  * Comments Component
- * Displays a list of comments, a creation form, and handles edit mode.
+ * Displays threaded comments, a creation form, and handles reply and edit modes.
  * Styled to match the ViewBlog component.
  * * @component
  * @param {Object} props
@@ -11,15 +24,268 @@ import { useComments } from './useComments';
 export default function Comments({ blogId }: { blogId: string }) {
   const {
     // Destructuring logic from the hook
-    comments, loading, error, user,
-    newContent, setNewContent, previewUrl, isPosting,
+    comments, loading, error, user, total, hasMore, loadMore,
+    newContent, setNewContent, selectedImages,
     handleImageSelect, handleRemoveImage, handlePost, handleDelete,
     // Edit Mode State & Handlers
-    editingId, editContent, setEditContent, editPreviewUrl,
+    editingId, editContent, setEditContent, editImages,
     startEditing, cancelEditing, saveEdit, 
-    handleEditImageSelect, handleRemoveEditImage
+    handleEditImageSelect, handleRemoveEditImage,
+    // Reply & Thread State
+    thread, replyingTo, replyContent, setReplyContent,
+    startReply, cancelReply, handleReply, collapsedIds, toggleCollapsed,
+    // Optimistic Writes
+    writes, retryWrite, dismissWrite
   } = useComments(blogId);
-  
+
+  /**
+   * Renders the images attached to a form, each with its own remove button.
+   */
+  const renderImagePreviews = (drafts: CommentImageDraft[], onRemove: (index: number) => void) => (
+    drafts.length > 0 && (
+      <div className="mt-4 flex flex-wrap gap-3">
+        {drafts.map((draft, index) => (
+          <div key={draft.url} className="relative">
+            <img src={draft.url} alt={`Attachment ${index + 1}`} className="w-24 h-24 rounded-lg shadow-md border border-gray-200 object-cover" />
+            <button 
+              onClick={() => onRemove(index)} 
+              aria-label={`Remove image ${index + 1}`}
+              className="absolute -top-2 -right-2 bg-gray-900 text-white rounded-full w-6 h-6 flex items-center justify-center hover:bg-red-600 transition-colors shadow-lg"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+    )
+  );
+
+  /**
+   * Renders the "Add Images" picker, disabled once a form holds MAX_COMMENT_IMAGES.
+   */
+  const renderImagePicker = (count: number, onSelect: (e: React.ChangeEvent<HTMLInputElement>) => void) => {
+    const isFull = count >= MAX_COMMENT_IMAGES;
+    return (
+      <label className={`flex items-center gap-2 font-medium transition-colors ${
+        isFull ? 'text-gray-300 cursor-not-allowed' : 'cursor-pointer text-gray-600 hover:text-indigo-600'
+      }`}>
+        <input type="file" accept="image/*" multiple className="hidden" onChange={onSelect} disabled={isFull} />
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                  </svg>
+        <span className="text-sm">Add Images ({count}/{MAX_COMMENT_IMAGES})</span>
+      </label>
+    );
+  };
+
+  /**
+   * Renders one comment with its reply box and replies below it.
+   * Indentation stops at MAX_REPLY_DEPTH so deep threads stay readable on small screens.
+   */
+  const renderNode = ({ comment: c, replies, replyCount }: CommentNode, depth: number) => {
+    const isCollapsed = collapsedIds.has(c.id);
+    const images = getCommentImages(c);
+    const write = writes[c.id];
+    // No replies or changes until the server has the comment and nothing is in flight
+    const canAct = !c.deleted_at && write?.action !== 'create' && write?.status !== 'sending';
+
+    return (
+      <li key={c.id}>
+        <div className={`bg-white p-6 rounded-xl border border-gray-200 shadow-sm transition-hover hover:shadow-md ${
+          write?.status === 'sending' ? 'opacity-60' : ''
+        }`}>
+          {/* Display Mode */}
+          {editingId !== c.id ? (
+            <div className="flex-1">
+              {c.deleted_at ? (
+                /* Placeholder kept so its replies stay in place */
+                <p className="text-gray-400 italic">[deleted]</p>
+              ) : (
+                <>
+                  {/* Author */}
+                  <Link to={`/u/${c.author_id}`} className="inline-flex items-center gap-3 mb-3 group">
+                    <Avatar profile={c.author} size="md" />
+                    <span className="font-semibold text-gray-900 group-hover:text-primary-600 transition-colors">
+                      {getDisplayName(c.author)}
+                    </span>
+                  </Link>
+
+                  <p className="text-gray-700 leading-relaxed whitespace-pre-wrap">{c.content}</p>
+                </>
+              )}
+              
+              {images.length > 0 && (
+                <div className="mt-4 grid grid-cols-2 sm:grid-cols-3 gap-2 max-w-md">
+                  {images.map((url, index) => (
+                    <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                      <img 
+                        src={url} 
+                        alt={`Comment attachment ${index + 1}`} 
+                        className="w-full aspect-square rounded-lg border border-gray-100 shadow-sm object-cover hover:opacity-90 transition-opacity" 
+                      />
+                    </a>
+                  ))}
+                </div>
+              )}
+              
+              <div className="mt-6 pt-4 border-t border-gray-50 flex items-center justify-between">
+                <div className="flex items-center gap-2 text-gray-400">
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                  <span className="text-xs font-medium uppercase tracking-wider">
+                    {new Date(c.created_at).toLocaleDateString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      year: 'numeric',
+                      hour: '2-digit',
+                      minute: '2-digit'
+                    })}
+                  </span>
+                </div>
+                
+                <div className="flex items-center gap-3">
+                  {replyCount > 0 && (
+                    <button
+                      onClick={() => toggleCollapsed(c.id)}
+                      aria-expanded={!isCollapsed}
+                      className="text-xs font-bold text-gray-400 hover:text-gray-600 transition-colors uppercase tracking-widest"
+                    >
+                      {isCollapsed ? '▸ Show' : '▾ Hide'} {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+                    </button>
+                  )}
+                  {user && canAct && (
+                    <button
+                      onClick={() => startReply(c.id)}
+                      className="flex items-center gap-1 text-xs font-bold text-indigo-400 hover:text-indigo-600 transition-colors uppercase tracking-widest"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+                      </svg>
+                      Reply
+                    </button>
+                  )}
+                  {user?.id === c.author_id && canAct && (
+                    <>
+                      <button 
+                        onClick={() => startEditing(c)} 
+                        className="flex items-center gap-1 text-xs font-bold text-blue-400 hover:text-blue-600 transition-colors uppercase tracking-widest"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                        </svg>
+                        Edit
+                      </button>
+                      <button 
+                        onClick={() => handleDelete(c)} 
+                        className="flex items-center gap-1 text-xs font-bold text-red-400 hover:text-red-600 transition-colors uppercase tracking-widest"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {/* Unconfirmed Write */}
+              {write && (
+                <div className={`mt-4 flex items-center justify-between gap-3 text-sm ${
+                  write.status === 'failed' ? 'text-red-600' : 'text-gray-500'
+                }`}>
+                  <span role={write.status === 'failed' ? 'alert' : 'status'}>
+                    {WRITE_LABELS[write.action][write.status]}
+                    {write.status === 'failed' && write.error && <span className="text-gray-500"> {write.error}</span>}
+                  </span>
+                  {write.status === 'failed' && (
+                    <div className="flex items-center gap-2 shrink-0">
+                      <button onClick={() => retryWrite(c.id)} className="font-semibold hover:text-red-800">
+                        Retry
+                      </button>
+                      <button onClick={() => dismissWrite(c.id)} className="text-gray-500 hover:text-gray-700">
+                        {write.action === 'create' ? 'Discard' : 'Dismiss'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ) : (
+            /* Edit Mode */
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Edit Comment</label>
+              <textarea
+                value={editContent}
+                onChange={(e) => setEditContent(e.target.value)}
+                placeholder="Update your comment..."
+                className="w-full rounded-lg border border-gray-200 p-4 focus:ring-2 focus:ring-indigo-500 transition-all outline-none resize-none text-gray-700 bg-gray-50"
+                rows={3}
+              />
+
+              {renderImagePreviews(editImages, handleRemoveEditImage)}
+
+              <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-100">
+                {renderImagePicker(editImages.length, handleEditImageSelect)}
+
+                <div className="flex items-center gap-2">
+                  <button 
+                    onClick={cancelEditing} 
+                    className="px-4 py-2 rounded-lg text-gray-700 font-semibold border border-gray-300 hover:bg-gray-50 transition-all"
+                  >
+                    Cancel
+                  </button>
+                  <button 
+                    onClick={() => saveEdit(c)} 
+                    className="px-4 py-2 rounded-lg bg-indigo-600 text-white font-semibold hover:bg-indigo-700 transition-all"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Reply Box */}
+        {replyingTo === c.id && (
+          <div className="mt-4 ml-4 sm:ml-8 bg-white rounded-xl border border-gray-200 shadow-sm p-4">
+            <textarea
+              value={replyContent}
+              onChange={(e) => setReplyContent(e.target.value)}
+              placeholder={`Reply to ${getDisplayName(c.author)}...`}
+              className="w-full rounded-lg border-gray-200 p-3 focus:ring-2 focus:ring-indigo-500 transition-all outline-none resize-none text-gray-700 bg-gray-50"
+              rows={2}
+              autoFocus
+            />
+            <div className="flex justify-end gap-2 mt-3">
+              <button
+                onClick={cancelReply}
+                className="px-4 py-2 rounded-lg text-gray-700 font-semibold border border-gray-300 hover:bg-gray-50 transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleReply}
+                className="px-4 py-2 rounded-lg bg-indigo-600 text-white font-semibold hover:bg-indigo-700 transition-all"
+              >
+                Reply
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Replies */}
+        {replies.length > 0 && !isCollapsed && (
+          <ul className={`mt-4 space-y-4 ${depth < MAX_REPLY_DEPTH ? 'pl-4 sm:pl-8 border-l-2 border-gray-100' : ''}`}>
+            {replies.map((reply) => renderNode(reply, depth + 1))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
   return (
     <div className="mt-12">
       <div className="flex items-center gap-3 mb-6">
@@ -27,6 +293,11 @@ export default function Comments({ blogId }: { blogId: string }) {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
         </svg>
         <h2 className="text-2xl font-bold text-gray-900">Community Discussion</h2>
+        {total > 0 && (
+          <span className="text-sm font-semibold text-gray-500 bg-gray-100 rounded-full px-3 py-1">
+            {total} {total === 1 ? 'comment' : 'comments'}
+          </span>
+        )}
       </div>
 
       {/* Form Section - Matched to Blog Card Styling */}
@@ -40,36 +311,16 @@ export default function Comments({ blogId }: { blogId: string }) {
             rows={3}
           />
 
-          {previewUrl && (
-            <div className="mt-4 relative inline-block">
-              <img src={previewUrl} alt="Upload preview" className="max-h-48 rounded-lg shadow-md border border-gray-200" />
-              <button 
-                onClick={handleRemoveImage} 
-                className="absolute -top-2 -right-2 bg-gray-900 text-white rounded-full w-6 h-6 flex items-center justify-center hover:bg-red-600 transition-colors shadow-lg"
-              >
-                ✕
-              </button>
-            </div>
-          )}
+          {renderImagePreviews(selectedImages, handleRemoveImage)}
 
           <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-100">
-            <label className="flex items-center gap-2 cursor-pointer text-gray-600 hover:text-indigo-600 font-medium transition-colors">
-              <input type="file" accept="image/*" className="hidden" onChange={handleImageSelect} />
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-              </svg>
-              <span className="text-sm">Add Image</span>
-            </label>
+            {renderImagePicker(selectedImages.length, handleImageSelect)}
 
             <button 
               onClick={handlePost} 
-              disabled={isPosting} 
-              className={`px-6 py-2 rounded-lg text-white font-semibold shadow-md transition-all flex items-center gap-2 ${
-                isPosting ? 'bg-gray-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700 active:scale-95'
-              }`}
+              className="px-6 py-2 rounded-lg text-white font-semibold shadow-md transition-all bg-indigo-600 hover:bg-indigo-700 active:scale-95"
             >
-              {isPosting && <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>}
-              {isPosting ? 'Posting...' : 'Post Comment'}
+              Post Comment
             </button>
           </div>
           {error && <p className="text-sm text-red-500 mt-3 flex items-center gap-1 font-medium"><span>⚠️</span> {error}</p>}
@@ -91,117 +342,23 @@ export default function Comments({ blogId }: { blogId: string }) {
           <p className="text-gray-400">No comments yet. Start the conversation!</p>
         </div>
       ) : (
-        <ul className="space-y-4">
-          {comments.map((c) => (
-            <li key={c.id} className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm transition-hover hover:shadow-md">
-              {/* Display Mode */}
-              {editingId !== c.id ? (
-                <div className="flex-1">
-                  <p className="text-gray-700 leading-relaxed whitespace-pre-wrap">{c.content}</p>
-                  
-                  {c.image_url && (
-                    <div className="mt-4">
-                      <img 
-                        src={c.image_url} 
-                        alt="Comment attachment" 
-                        className="max-h-80 rounded-lg border border-gray-100 shadow-sm object-cover" 
-                      />
-                    </div>
-                  )}
-                  
-                  <div className="mt-6 pt-4 border-t border-gray-50 flex items-center justify-between">
-                    <div className="flex items-center gap-2 text-gray-400">
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                      </svg>
-                      <span className="text-xs font-medium uppercase tracking-wider">
-                        {new Date(c.created_at).toLocaleDateString('en-US', {
-                          month: 'short',
-                          day: 'numeric',
-                          year: 'numeric',
-                          hour: '2-digit',
-                          minute: '2-digit'
-                        })}
-                      </span>
-                    </div>
-                    
-                    {user?.id === c.author_id && (
-                      <div className="flex items-center gap-3">
-                        <button 
-                          onClick={() => startEditing(c)} 
-                          className="flex items-center gap-1 text-xs font-bold text-blue-400 hover:text-blue-600 transition-colors uppercase tracking-widest"
-                        >
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                          </svg>
-                          Edit
-                        </button>
-                        <button 
-                          onClick={() => handleDelete(c.id, c.image_url)} 
-                          className="flex items-center gap-1 text-xs font-bold text-red-400 hover:text-red-600 transition-colors uppercase tracking-widest"
-                        >
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                          </svg>
-                          Delete
-                        </button>
-                      </div>
-                    )}
-                  </div>
-                </div>
-              ) : (
-                /* Edit Mode */
-                <div className="flex-1">
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Edit Comment</label>
-                  <textarea
-                    value={editContent}
-                    onChange={(e) => setEditContent(e.target.value)}
-                    placeholder="Update your comment..."
-                    className="w-full rounded-lg border border-gray-200 p-4 focus:ring-2 focus:ring-indigo-500 transition-all outline-none resize-none text-gray-700 bg-gray-50"
-                    rows={3}
-                  />
-
-                  {editPreviewUrl && (
-                    <div className="mt-4 relative inline-block">
-                      <img src={editPreviewUrl} alt="Edit preview" className="max-h-48 rounded-lg shadow-md border border-gray-200" />
-                      <button 
-                        onClick={handleRemoveEditImage} 
-                        className="absolute -top-2 -right-2 bg-gray-900 text-white rounded-full w-6 h-6 flex items-center justify-center hover:bg-red-600 transition-colors shadow-lg"
-                      >
-                        ✕
-                      </button>
-                    </div>
-                  )}
-
-                  <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-100">
-                    <label className="flex items-center gap-2 cursor-pointer text-gray-600 hover:text-indigo-600 font-medium transition-colors">
-                      <input type="file" accept="image/*" className="hidden" onChange={handleEditImageSelect} />
-                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                      </svg>
-                      <span className="text-sm">Replace Image</span>
-                    </label>
+        <>
+          <ul className="space-y-4">
+            {thread.map((node) => renderNode(node, 0))}
+          </ul>
 
-                    <div className="flex items-center gap-2">
-                      <button 
-                        onClick={cancelEditing} 
-                        className="px-4 py-2 rounded-lg text-gray-700 font-semibold border border-gray-300 hover:bg-gray-50 transition-all"
-                      >
-                        Cancel
-                      </button>
-                      <button 
-                        onClick={() => saveEdit(c.image_url)} 
-                        className="px-4 py-2 rounded-lg bg-indigo-600 text-white font-semibold hover:bg-indigo-700 transition-all"
-                      >
-                        Save
-                      </button>
-                    </div>
-                  </div>
-                </div>
-              )}
-            </li>
-          ))}
-        </ul>
+          {hasMore && (
+            <div className="flex justify-center mt-6">
+              <button
+                onClick={loadMore}
+                disabled={loading}
+                className="px-6 py-2 rounded-lg text-gray-700 font-semibold border border-gray-300 hover:bg-gray-50 transition-all disabled:text-gray-400"
+              >
+                {loading ? 'Loading...' : 'Load more comments'}
+              </button>
+            </div>
+          )}
+        </>
       )}
     </div>
   );
@@ -0,0 +1,66 @@
+import type { Comment } from '../../types';
+import { validateImageFile, createPreviewUrl, revokePreviewUrl } from '../../lib/imageUpload';
+
+/** Most images a single comment can carry */
+export const MAX_COMMENT_IMAGES = 4;
+
+/**
+ * Returns a comment's images in display order.
+ * Comments written before multi-image support only have `image_url`;
+ * those are read as a one-image list (same as the backfill in 06_add_comments_image_urls.sql).
+ * @param {Pick<Comment, 'image_url' | 'image_urls'>} comment - The comment to read.
+ * @returns {string[]} Public image URLs.
+ */
+export function getCommentImages(comment: Pick<Comment, 'image_url' | 'image_urls'>): string[] {
+  if (comment.image_urls && comment.image_urls.length > 0) {
+    return comment.image_urls;
+  }
+  return comment.image_url ? [comment.image_url] : [];
+}
+
+/**
+ * An image shown in a comment form before it is saved.
+ * @property {string} url - Public URL, or a local preview URL for a new file.
+ * @property {File | null} file - The file to upload, or null for an image already in storage.
+ */
+export interface CommentImageDraft {
+  url: string;
+  file: File | null;
+}
+
+/**
+ * Validates picked files and turns them into drafts, stopping at the image limit.
+ * @param {FileList | null} files - Files from an `<input type="file" multiple>`.
+ * @param {number} existingCount - Images already attached to the form.
+ * @returns {{ drafts: CommentImageDraft[], error: string | null }} New drafts and the first problem found, if any.
+ */
+export function toImageDrafts(
+  files: FileList | null,
+  existingCount: number
+): { drafts: CommentImageDraft[]; error: string | null } {
+  const drafts: CommentImageDraft[] = [];
+  let error: string | null = null;
+
+  for (const file of Array.from(files ?? [])) {
+    if (existingCount + drafts.length >= MAX_COMMENT_IMAGES) {
+      error = `A comment can have at most ${MAX_COMMENT_IMAGES} images.`;
+      break;
+    }
+    const validationError = validateImageFile(file);
+    if (validationError) {
+      error = validationError;
+      continue;
+    }
+    drafts.push({ url: createPreviewUrl(file), file });
+  }
+
+  return { drafts, error };
+}
+
+/**
+ * Frees the preview URL of a draft picked from disk (stored images are left alone).
+ * @param {CommentImageDraft} draft - The draft being discarded.
+ */
+export function releaseImageDraft(draft: CommentImageDraft): void {
+  if (draft.file) revokePreviewUrl(draft.url);
+}
@@ -1,5 +1,39 @@
 import { supabase } from '../../lib/supabase';
 import { uploadImage, deleteImage } from '../../lib/imageUpload';
+import type { Comment, CommentCursor, ProfileSummary } from '../../types';
+
+/** Columns selected for a comment: the row plus its author's profile */
+const COMMENT_SELECT = '*, author:profiles!comments_author_id_fkey(id, display_name, avatar_url)';
+
+/**
+ * Uploads comment images in order.
+ * If one upload fails, the ones already uploaded are deleted before the error is rethrown.
+ * @param {File[]} files - Images to upload.
+ * @param {string} authorId - Owner of the uploaded files.
+ * @returns {Promise<string[]>} Public URLs, in the same order as `files`.
+ */
+async function uploadImages(files: File[], authorId: string): Promise<string[]> {
+  const urls: string[] = [];
+  try {
+    for (const file of files) {
+      urls.push(await uploadImage(file, authorId));
+    }
+  } catch (error) {
+    await deleteImages(urls);
+    throw error;
+  }
+  return urls;
+}
+
+/**
+ * Deletes images from storage (failures are ignored, see deleteImage).
+ * @param {string[]} urls - Public URLs to delete.
+ */
+async function deleteImages(urls: string[]) {
+  for (const url of urls) {
+    await deleteImage(url);
+  }
+}
 
 /**
  * Service for Comment-related data operations.
@@ -8,20 +42,76 @@ import { uploadImage, deleteImage } from '../../lib/imageUpload';
  */
 export const commentService = {
   /**
-   * Fetches all comments belonging to a specific blog post.
+   * Fetches one page of a blog post's comments, oldest first, using keyset (cursor) pagination.
+   * A reply is always newer than the comment it answers, so parents load before their replies.
+   * The total is only counted for the first page.
    * * @param {string} blogId - The UUID of the parent blog post.
-   * @returns {Promise<Array>} A promise that resolves to an array of comment objects.
+   * @param {CommentCursor | null} cursor - The last comment already loaded, or null for the first page.
+   * @param {number} limit - Page size.
+   * @returns {{ data, nextCursor, total }} `nextCursor` is null on the last page; `total` is null after the first.
    * @throws {Error} If the database query fails.
    */
-  async fetchComments(blogId: string) {
-    const { data, error } = await supabase
+  async fetchComments(blogId: string, cursor: CommentCursor | null, limit: number) {
+    let query = supabase
       .from('comments')
-      .select('*')
-      .eq('blog_id', blogId)
-      .order('created_at', { ascending: true });
+      .select(COMMENT_SELECT, cursor ? undefined : { count: 'exact' })
+      .eq('blog_id', blogId);
+
+    if (cursor) {
+      // Strictly after the cursor, with the id breaking ties on equal times
+      query = query.or(
+        `created_at.gt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.gt.${cursor.id})`
+      );
+    }
+
+    // One extra row tells us whether another page exists
+    const { data, error, count } = await query
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit + 1);
 
     if (error) throw error;
-    return data || [];
+    const rows = (data || []) as Comment[];
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor: CommentCursor | null =
+      rows.length > limit && last ? { created_at: last.created_at, id: last.id } : null;
+
+    return { data: page, nextCursor, total: cursor ? null : count ?? 0 };
+  },
+
+  /**
+   * Counts a blog post's comments, including "[deleted]" placeholders.
+   * * @param {string} blogId - The UUID of the parent blog post.
+   * @returns {Promise<number>} The number of comment rows.
+   * @throws {Error} If the count query fails.
+   */
+  async countComments(blogId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('comments')
+      .select('id', { count: 'exact', head: true })
+      .eq('blog_id', blogId);
+
+    if (error) throw error;
+    return count ?? 0;
+  },
+
+  /**
+   * Fetches the public profile of a commenter.
+   * Used for realtime rows, which arrive without the embedded author.
+   * * @param {string} authorId - The UUID of the commenter.
+   * @returns {Promise<ProfileSummary>} The author's id, display name and avatar.
+   * @throws {Error} If the profile cannot be read.
+   */
+  async fetchAuthor(authorId: string): Promise<ProfileSummary> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, display_name, avatar_url')
+      .eq('id', authorId)
+      .single();
+
+    if (error) throw error;
+    return data;
   },
 
   /**
@@ -29,90 +119,110 @@ export const commentService = {
    * * @param {string} blogId - The UUID of the target blog post.
    * @param {string} authorId - The UUID of the user creating the comment.
    * @param {string} content - The text content of the comment.
-   * @param {File | null} file - An optional image file to attach.
+   * @param {File[]} files - Images to attach, in display order.
+   * @param {string | null} [parentId] - The comment being replied to, if any.
    * @returns {Promise<Object>} The newly created comment object.
    * @throws {Error} If image upload or database insertion fails.
    */
-  async createComment(blogId: string, authorId: string, content: string, file: File | null) {
-    let imageUrl: string | null = null;
-
-    if (file) {
-      imageUrl = await uploadImage(file, authorId);
-    }
+  async createComment(blogId: string, authorId: string, content: string, files: File[], parentId: string | null = null) {
+    const imageUrls = await uploadImages(files, authorId);
 
     const { data, error } = await supabase
       .from('comments')
       .insert([{ 
         blog_id: blogId, 
         author_id: authorId, 
+        parent_id: parentId,
         content: content || '', 
-        image_url: imageUrl 
+        image_urls: imageUrls 
       }])
-      .select()
+      .select(COMMENT_SELECT)
       .single();
 
-    if (error) throw error;
+    if (error) {
+      // Nothing points at the uploads, and a retry uploads the files again
+      await deleteImages(imageUrls);
+      throw error;
+    }
     return data;
   },
 
   /**
    * Updates an existing comment.
-   * Smartly handles image replacement: uploads new ones and deletes old ones if necessary.
+   * Uploads newly added images, saves the new list, then deletes removed images from storage.
    * * @param {string} commentId - The UUID of the comment to edit.
+   * @param {string} authorId - The comment's author (owner of the uploaded files).
    * @param {string} content - The updated text content.
-   * @param {File | null} newFile - A new image file (if replacing/adding).
-   * @param {string | null} oldImageUrl - The URL of the previous image (for cleanup).
-   * @param {boolean} keepOldImage - Flag indicating if the old image should be preserved.
+   * @param {string[]} keptUrls - Existing images to keep, in order.
+   * @param {File[]} newFiles - Images to add after the kept ones.
+   * @param {string[]} removedUrls - Existing images the user removed (for cleanup).
    * @returns {Promise<Object>} The updated comment object.
    */
   async updateComment(
     commentId: string, 
+    authorId: string,
     content: string, 
-    newFile: File | null, 
-    oldImageUrl: string | null,
-    keepOldImage: boolean
+    keptUrls: string[],
+    newFiles: File[],
+    removedUrls: string[]
   ) {
-    let finalImageUrl = oldImageUrl;
-
-    // 1. Upload new image if provided
-    if (newFile) {
-      if (oldImageUrl) await deleteImage(oldImageUrl); // Clean up old garbage
-      finalImageUrl = await uploadImage(newFile, 'updated');
-    } 
-    // 2. Remove old image if user explicitly deleted it
-    else if (!keepOldImage && oldImageUrl) {
-      await deleteImage(oldImageUrl);
-      finalImageUrl = null;
-    }
+    const uploadedUrls = await uploadImages(newFiles, authorId);
+    const imageUrls = [...keptUrls, ...uploadedUrls];
 
     const { data, error } = await supabase
       .from('comments')
       .update({ 
         content, 
-        image_url: finalImageUrl,
+        // Legacy single image, if any, now lives in image_urls
+        image_url: null,
+        image_urls: imageUrls,
         updated_at: new Date().toISOString() 
       })
       .eq('id', commentId)
-      .select()
+      .select(COMMENT_SELECT)
       .single();
 
-    if (error) throw error;
+    if (error) {
+      await deleteImages(uploadedUrls);
+      throw error;
+    }
+
+    // Only clean up once the comment no longer points at them
+    await deleteImages(removedUrls);
     return data;
   },
 
   /**
    * Deletes a comment and its associated storage assets.
+   * A comment that has replies is blanked and marked deleted instead, so the
+   * replies keep their place in the thread. The database decides this in the
+   * same step as the delete (see 19_keep_replied_comments_on_delete.sql).
    * * @param {string} commentId - The UUID of the comment to remove.
-   * @param {string} [imageUrl] - The URL of the attached image to delete from storage.
-   * @returns {Promise<string>} The ID of the deleted comment.
+   * @param {string[]} [imageUrls] - The attached images to delete from storage.
+   * @returns {Promise<{ id: string; placeholder: Comment | null }>} The ID, plus the placeholder if one was left.
    */
-  async deleteComment(commentId: string, imageUrl?: string | null) {
-    const { error } = await supabase.from('comments').delete().eq('id', commentId);
+  async deleteComment(commentId: string, imageUrls: string[] = []) {
+    const { data: deleted, error } = await supabase
+      .from('comments')
+      .delete()
+      .eq('id', commentId)
+      .select('id');
     if (error) throw error;
 
-    if (imageUrl) {
-      await deleteImage(imageUrl);
+    let placeholder: Comment | null = null;
+    if (!deleted.length) {
+      // Nothing was removed: either the row was kept as a placeholder or it wasn't ours to delete
+      const { data, error: fetchError } = await supabase
+        .from('comments')
+        .select(COMMENT_SELECT)
+        .eq('id', commentId)
+        .maybeSingle();
+      if (fetchError) throw fetchError;
+      if (data && !data.deleted_at) throw new Error('You are not allowed to delete this comment');
+      placeholder = data as Comment | null;
     }
-    return commentId;
+
+    await deleteImages(imageUrls);
+    return { id: commentId, placeholder };
   }
 };
\ No newline at end of file
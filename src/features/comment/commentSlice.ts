@@ -1,5 +1,5 @@
-import { createSlice } from '@reduxjs/toolkit';
-import type { CommentState } from '../../types';
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+import type { Comment, CommentState } from '../../types';
 import * as thunks from './commentThunks';
 
 // Re-export thunks so they can be imported from the slice file
@@ -10,12 +10,81 @@ export * from './commentThunks';
  */
 const initialState: CommentState = {
   comments: [],
+  writes: {},
+  total: 0,
+  nextCursor: null,
+  totalStale: false,
   loading: false,
   error: null,
 };
 
-// ... imports
-// ... initialState
+/**
+ * Inserts a comment in created_at order, or merges it into the copy already loaded.
+ * Older versions are ignored, so a late realtime echo cannot undo a newer edit.
+ * A realtime row has no embedded author; it borrows one from the same author's other comments.
+ */
+function upsert(state: CommentState, comment: Comment) {
+  const index = state.comments.findIndex(c => c.id === comment.id);
+
+  if (index !== -1) {
+    const existing = state.comments[index];
+    if (Date.parse(comment.updated_at) < Date.parse(existing.updated_at)) return;
+    state.comments[index] = { ...existing, ...comment, author: comment.author ?? existing.author };
+    return;
+  }
+
+  const author = comment.author ?? state.comments.find(c => c.author_id === comment.author_id && c.author)?.author;
+  const created = Date.parse(comment.created_at);
+  const position = state.comments.findIndex(c => Date.parse(c.created_at) > created);
+  const entry = { ...comment, author };
+  if (position === -1) {
+    state.comments.push(entry);
+  } else {
+    state.comments.splice(position, 0, entry);
+  }
+}
+
+/**
+ * True when a realtime INSERT is the server copy of a comment we are still sending.
+ * The thunk swaps the draft for it on success, so showing it now would duplicate the comment.
+ */
+function isEchoOfDraft(state: CommentState, comment: Comment) {
+  return state.comments.some(c =>
+    state.writes[c.id]?.action === 'create' &&
+    state.writes[c.id].status === 'sending' &&
+    c.author_id === comment.author_id &&
+    c.parent_id === comment.parent_id &&
+    c.content === comment.content
+  );
+}
+
+/**
+ * True when a comment not loaded yet belongs in the part of the thread already on screen.
+ * Once every page is loaded that is any comment (new ones go at the end); until then only
+ * replies to loaded comments, since anything else arrives with a later page.
+ */
+function isInLoadedRange(state: CommentState, comment: Comment) {
+  if (!state.nextCursor) return true;
+  return !!comment.parent_id && state.comments.some(c => c.id === comment.parent_id);
+}
+
+/**
+ * Marks a write as failed and puts back the version it replaced.
+ */
+function rollback(state: CommentState, id: string, error: string) {
+  const write = state.writes[id];
+  if (!write) return;
+  if (write.previous) {
+    const index = state.comments.findIndex(c => c.id === id);
+    if (index !== -1) {
+      state.comments[index] = write.previous;
+    } else {
+      upsert(state, write.previous);
+    }
+  }
+  write.status = 'failed';
+  write.error = error;
+}
 
 const commentSlice = createSlice({
   name: 'comment',
@@ -23,9 +92,52 @@ const commentSlice = createSlice({
   reducers: {
     clearComments: (state) => {
       state.comments = [];
+      state.writes = {};
+      state.total = 0;
+      state.nextCursor = null;
+      state.totalStale = false;
       state.loading = false;
       state.error = null;
     },
+    /** Applies an inserted row from the realtime subscription and counts it */
+    insertComment: (state, action: PayloadAction<Comment>) => {
+      const isLoaded = state.comments.some(c => c.id === action.payload.id);
+      if (!isLoaded) {
+        if (isEchoOfDraft(state, action.payload)) return;
+        state.total += 1;
+        if (!isInLoadedRange(state, action.payload)) return;
+      }
+      upsert(state, action.payload);
+    },
+    /** Applies an updated row from the realtime subscription */
+    upsertComment: (state, action: PayloadAction<Comment>) => {
+      const isLoaded = state.comments.some(c => c.id === action.payload.id);
+      if (!isLoaded && !isInLoadedRange(state, action.payload)) return;
+      upsert(state, action.payload);
+    },
+    /** Forgets a failed write: drops an unsent comment, or keeps the restored version of an edit/delete */
+    dismissCommentWrite: (state, action: PayloadAction<string>) => {
+      const write = state.writes[action.payload];
+      if (write?.action === 'create') {
+        state.comments = state.comments.filter(c => c.id !== action.payload);
+      }
+      delete state.writes[action.payload];
+    },
+    /**
+     * Drops a deleted row. An unknown ID is usually another post's comment, but
+     * while pages are still unloaded it may be one of ours, so the total is marked stale.
+     */
+    removeCommentById: (state, action: PayloadAction<string>) => {
+      // Our own delete is settled by removeComment.fulfilled
+      const write = state.writes[action.payload];
+      if (write?.action === 'delete' && write.status === 'sending') return;
+      if (!state.comments.some(c => c.id === action.payload)) {
+        if (state.nextCursor) state.totalStale = true;
+        return;
+      }
+      state.comments = state.comments.filter(c => c.id !== action.payload);
+      state.total = Math.max(state.total - 1, 0);
+    },
   },
   extraReducers: (builder) => {
     builder
@@ -35,7 +147,21 @@ const commentSlice = createSlice({
       })
       .addCase(thunks.fetchComments.fulfilled, (state, action) => {
         state.loading = false;
-        state.comments = action.payload;
+        const { data, nextCursor, total } = action.payload;
+        if (action.meta.arg.cursor) {
+          // Upsert skips comments already shown, e.g. a reply that arrived over realtime
+          data.forEach(comment => upsert(state, comment));
+        } else {
+          // Keep unsent comments on top of the reloaded thread
+          const drafts = state.comments.filter(c => state.writes[c.id]?.action === 'create');
+          state.comments = data;
+          drafts.forEach(draft => upsert(state, draft));
+        }
+        state.nextCursor = nextCursor;
+        if (total !== null) {
+          state.total = total;
+          state.totalStale = false;
+        }
       })
       .addCase(thunks.fetchComments.rejected, (state, action) => {
         state.loading = false;
@@ -45,24 +171,93 @@ const commentSlice = createSlice({
             state.error = action.payload as string;
         }
       })
-      // ... keep addComment and removeComment cases the same
+      // --- Optimistic Create ---
+      .addCase(thunks.addComment.pending, (state, action) => {
+        const { draft } = action.meta.arg;
+        upsert(state, draft);
+        state.writes[draft.id] = { action: 'create', status: 'sending', previous: null, error: null };
+      })
       .addCase(thunks.addComment.fulfilled, (state, action) => {
-        state.loading = false;
-        state.comments.push(action.payload);
+        const { draft } = action.meta.arg;
+        // Skip if the reader has since left this post (the draft was cleared with it)
+        if (!state.writes[draft.id]) return;
+        delete state.writes[draft.id];
+        state.comments = state.comments.filter(c => c.id !== draft.id);
+        if (!state.comments.some(c => c.id === action.payload.id)) state.total += 1;
+        // Upsert rather than push: the realtime echo may have landed first
+        upsert(state, action.payload);
+      })
+      .addCase(thunks.addComment.rejected, (state, action) => {
+        rollback(state, action.meta.arg.draft.id, (action.payload as string) ?? action.error.message);
+      })
+
+      // --- Optimistic Edit ---
+      .addCase(thunks.editComment.pending, (state, action) => {
+        const { draft } = action.meta.arg;
+        const index = state.comments.findIndex(c => c.id === draft.id);
+        if (index === -1) return;
+        state.writes[draft.id] = { action: 'edit', status: 'sending', previous: state.comments[index], error: null };
+        state.comments[index] = draft;
       })
       .addCase(thunks.editComment.fulfilled, (state, action) => {
-        state.loading = false;
+        delete state.writes[action.payload.id];
+        // Replace outright: the draft's timestamps came from this device's clock
         const index = state.comments.findIndex(c => c.id === action.payload.id);
-        if (index !== -1) {
-          state.comments[index] = action.payload;
-        }
+        if (index !== -1) state.comments[index] = action.payload;
+      })
+      .addCase(thunks.editComment.rejected, (state, action) => {
+        rollback(state, action.meta.arg.draft.id, (action.payload as string) ?? action.error.message);
+      })
+      .addCase(thunks.refreshCommentTotal.fulfilled, (state, action) => {
+        state.total = action.payload;
+        state.totalStale = false;
+      })
+      .addCase(thunks.refreshCommentTotal.rejected, (state) => {
+        // Quiet: the count stays as it was until the next reload
+        state.totalStale = false;
+      })
+      .addCase(thunks.fetchCommentAuthor.fulfilled, (state, action) => {
+        state.comments.forEach(c => {
+          if (c.author_id === action.payload.id && !c.author) c.author = action.payload;
+        });
+      })
+      // --- Optimistic Delete ---
+      .addCase(thunks.removeComment.pending, (state, action) => {
+        const { id } = action.meta.arg;
+        const index = state.comments.findIndex(c => c.id === id);
+        if (index === -1) return;
+        const comment = state.comments[index];
+        state.writes[id] = { action: 'delete', status: 'sending', previous: comment, error: null };
+
+        // Show "[deleted]" for now: only the server knows whether replies (possibly on
+        // pages not loaded yet) keep it as a placeholder or whether the row goes away
+        state.comments[index] = { ...comment, content: '', image_url: null, image_urls: [], deleted_at: new Date().toISOString() };
+      })
+      .addCase(thunks.removeComment.rejected, (state, action) => {
+        rollback(state, action.meta.arg.id, (action.payload as string) ?? action.error.message);
       })
       .addCase(thunks.removeComment.fulfilled, (state, action) => {
-        state.loading = false;
-        state.comments = state.comments.filter(c => c.id !== action.payload);
+        const { id, placeholder } = action.payload;
+        // Skip if the reader has since left this post
+        if (!state.writes[id]) return;
+        delete state.writes[id];
+
+        if (placeholder) {
+          // Has replies: keep its place in the thread as "[deleted]"
+          const index = state.comments.findIndex(c => c.id === id);
+          if (index !== -1) {
+            state.comments[index] = placeholder;
+          } else {
+            upsert(state, placeholder);
+          }
+        } else {
+          // Counted down here: removeCommentById ignores the realtime echo of this delete
+          state.comments = state.comments.filter(c => c.id !== id);
+          state.total = Math.max(state.total - 1, 0);
+        }
       });
   },
 });
 
-export const { clearComments } = commentSlice.actions;
+export const { clearComments, insertComment, upsertComment, removeCommentById, dismissCommentWrite } = commentSlice.actions;
 export default commentSlice.reducer;
\ No newline at end of file
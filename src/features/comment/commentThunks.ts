@@ -1,16 +1,35 @@
 import { createAsyncThunk } from '@reduxjs/toolkit';
 import { commentService } from './commentService';
+import type { Comment, CommentCursor, CommentState } from '../../types';
+
+/** Comments loaded per page */
+const COMMENTS_PER_PAGE = 20;
 
 /**
- * Async Thunk to fetch comments for a specific blog post.
+ * Async Thunk to fetch a page of comments for a specific blog post.
  * Handles loading and error states automatically.
- * * @param {string} blogId - The ID of the blog to fetch comments for.
+ * Pass `cursor: null` to start over from the oldest comment.
+ * * @param {Object} payload
+ * @param {string} payload.blogId - The ID of the blog to fetch comments for.
+ * @param {CommentCursor | null} payload.cursor - The last comment already loaded.
+ * @param {boolean} [payload.reload] - Refetch everything loaded so far in one go
+ *   (e.g. after a reconnect), so pages opened with "Load more" are not dropped.
  */
 export const fetchComments = createAsyncThunk(
   'comment/fetchComments',
-  async (blogId: string, { rejectWithValue }) => {
+  async (
+    { blogId, cursor, reload = false }: { blogId: string; cursor: CommentCursor | null; reload?: boolean },
+    { getState, rejectWithValue }
+  ) => {
+    let limit = COMMENTS_PER_PAGE;
+    if (reload) {
+      const { comments, writes } = (getState() as { comment: CommentState }).comment;
+      const loaded = comments.filter(c => writes[c.id]?.action !== 'create').length;
+      limit = Math.max(loaded, COMMENTS_PER_PAGE);
+    }
+
     try {
-      return await commentService.fetchComments(blogId);
+      return await commentService.fetchComments(blogId, cursor, limit);
     } catch (err: any) {
       return rejectWithValue(err.message);
     }
@@ -19,17 +38,16 @@ export const fetchComments = createAsyncThunk(
 
 /**
  * Async Thunk to add a new comment.
+ * The draft is shown straight away under its temporary ID and swapped for the saved row on success.
  * * @param {Object} payload - The comment data.
- * @param {string} payload.blogId - Target blog ID.
- * @param {string} payload.authorId - User ID.
- * @param {string} payload.content - Text content.
- * @param {File | null} payload.file - Optional image file.
+ * @param {Comment} payload.draft - The comment as it should appear, with a temporary ID and preview image URLs.
+ * @param {File[]} payload.files - Images to attach.
  */
 export const addComment = createAsyncThunk(
   'comment/addComment',
-  async ({ blogId, authorId, content, file }: { blogId: string; authorId: string; content: string; file: File | null }, { rejectWithValue }) => {
+  async ({ draft, files }: { draft: Comment; files: File[] }, { rejectWithValue }) => {
     try {
-      return await commentService.createComment(blogId, authorId, content, file);
+      return await commentService.createComment(draft.blog_id, draft.author_id, draft.content, files, draft.parent_id);
     } catch (err: any) {
       return rejectWithValue(err.message);
     }
@@ -38,43 +56,83 @@ export const addComment = createAsyncThunk(
 
 /**
  * Async Thunk to update an existing comment.
+ * The edited version is shown straight away and the previous one restored on failure.
  * * @param {Object} payload - The update data.
- * @param {string} payload.commentId - ID of comment to edit.
- * @param {string} payload.content - New text content.
- * @param {File | null} payload.newFile - New image file.
- * @param {string | null} payload.oldImageUrl - Current image URL (for deletion logic).
- * @param {boolean} payload.keepOldImage - Whether to keep the existing image.
+ * @param {Comment} payload.draft - The comment as it should appear after the edit.
+ * @param {string[]} payload.keptUrls - Existing images to keep.
+ * @param {File[]} payload.newFiles - Images to add.
+ * @param {string[]} payload.removedUrls - Existing images to delete from storage.
  */
 export const editComment = createAsyncThunk(
   'comment/editComment',
   async ({ 
-    commentId, content, newFile, oldImageUrl, keepOldImage 
+    draft, keptUrls, newFiles, removedUrls 
   }: { 
-    commentId: string; 
-    content: string; 
-    newFile: File | null; 
-    oldImageUrl: string | null; 
-    keepOldImage: boolean;
+    draft: Comment; 
+    keptUrls: string[];
+    newFiles: File[];
+    removedUrls: string[];
   }, { rejectWithValue }) => {
     try {
-      return await commentService.updateComment(commentId, content, newFile, oldImageUrl, keepOldImage);
+      return await commentService.updateComment(draft.id, draft.author_id, draft.content, keptUrls, newFiles, removedUrls);
     } catch (err: any) {
       return rejectWithValue(err.message);
     }
   }
 );
 
+/**
+ * Async Thunk to load the author of a comment that arrived over realtime.
+ * Skipped when that author is already known from another loaded comment.
+ * * @param {string} authorId - The commenter's user ID.
+ */
+export const fetchCommentAuthor = createAsyncThunk(
+  'comment/fetchCommentAuthor',
+  async (authorId: string, { rejectWithValue }) => {
+    try {
+      return await commentService.fetchAuthor(authorId);
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  },
+  {
+    condition: (authorId, { getState }) => {
+      const { comments } = (getState() as { comment: CommentState }).comment;
+      return !comments.some(c => c.author_id === authorId && c.author);
+    },
+  }
+);
+
+/**
+ * Async Thunk to recount a post's comments once `totalStale` is set.
+ * DELETE events only carry the row ID, so a deleted comment that isn't loaded
+ * can't be placed; useComments batches those into one recount.
+ * * @param {string} blogId - The post being viewed.
+ */
+export const refreshCommentTotal = createAsyncThunk(
+  'comment/refreshCommentTotal',
+  async (blogId: string, { rejectWithValue }) => {
+    try {
+      return await commentService.countComments(blogId);
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
 /**
  * Async Thunk to remove a comment.
+ * The comment disappears (or turns into "[deleted]") straight away and comes back on failure.
+ * Resolves with a "[deleted]" placeholder instead when the comment has replies.
  * * @param {Object} payload
  * @param {string} payload.id - Comment ID.
- * @param {string} [payload.imageUrl] - Image URL to clean up from storage.
+ * @param {string[]} [payload.imageUrls] - Images to clean up from storage.
  */
 export const removeComment = createAsyncThunk(
   'comment/removeComment',
-  async ({ id, imageUrl }: { id: string; imageUrl?: string | null }, { rejectWithValue }) => {
+  async ({ id, imageUrls }: { id: string; imageUrls?: string[] }, { rejectWithValue }) => {
     try {
-      return await commentService.deleteComment(id, imageUrl);
+      return await commentService.deleteComment(id, imageUrls);
     } catch (err: any) {
       return rejectWithValue(err.message);
     }
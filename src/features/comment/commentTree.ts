@@ -0,0 +1,48 @@
+import type { Comment } from '../../types';
+
+/** Replies nested deeper than this are shown at this depth, not indented further */
+export const MAX_REPLY_DEPTH = 4;
+
+/**
+ * CommentNode Interface
+ * A comment with its replies, as rendered in the thread.
+ * @property {Comment} comment - The comment itself.
+ * @property {CommentNode[]} replies - Direct replies, oldest first.
+ * @property {number} replyCount - All replies below this comment, at any depth.
+ */
+export interface CommentNode {
+  comment: Comment;
+  replies: CommentNode[];
+  replyCount: number;
+}
+
+/**
+ * Arranges a flat, oldest-first comment list into threads.
+ * A reply whose parent isn't in the list is shown as a top-level comment.
+ * @param {Comment[]} comments - Comments of one post, sorted by `created_at`.
+ * @returns {CommentNode[]} Top-level comments with their replies nested.
+ */
+export function buildCommentTree(comments: Comment[]): CommentNode[] {
+  const nodes = new Map<string, CommentNode>();
+  for (const comment of comments) {
+    nodes.set(comment.id, { comment, replies: [], replyCount: 0 });
+  }
+
+  const roots: CommentNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.comment.parent_id ? nodes.get(node.comment.parent_id) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const countReplies = (node: CommentNode): number => {
+    node.replyCount = node.replies.reduce((total, reply) => total + 1 + countReplies(reply), 0);
+    return node.replyCount;
+  };
+  roots.forEach(countReplies);
+
+  return roots;
+}
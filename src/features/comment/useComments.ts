@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { supabase } from '../../lib/supabase';
 import type { AppDispatch, RootState } from '../../app/store';
@@ -7,18 +7,31 @@ import {
   addComment, 
   removeComment, 
   editComment, 
-  clearComments 
+  clearComments,
+  insertComment,
+  upsertComment,
+  removeCommentById,
+  fetchCommentAuthor,
+  refreshCommentTotal,
+  dismissCommentWrite
 } from './commentSlice';
-import { 
-  validateImageFile, 
-  createPreviewUrl, 
-  revokePreviewUrl 
-} from '../../lib/imageUpload';
+import type { Comment } from '../../types';
+import { buildCommentTree } from './commentTree';
+import {
+  getCommentImages,
+  toImageDrafts,
+  releaseImageDraft,
+  type CommentImageDraft
+} from './commentImages';
+
+/** How long deletions elsewhere are gathered before the post's comments are recounted */
+const RECOUNT_DELAY_MS = 3000;
 
 /**
  * Custom Hook: useComments
- * Encapsulates all logic for viewing, creating, editing, and deleting comments.
+ * Encapsulates all logic for viewing, creating, replying to, editing, and deleting comments.
  * Includes real-time subscriptions and race-condition prevention.
+ * Writes are optimistic: they show at once, roll back on failure and can then be retried.
  * * @param {string} blogId - The ID of the current blog post.
  * @returns {Object} An object containing state values and handler functions.
  */
@@ -26,181 +39,342 @@ export function useComments(blogId: string) {
   const dispatch = useDispatch<AppDispatch>();
   
   // Redux Global State
-  const { comments, loading, error } = useSelector((state: RootState) => state.comment);
-  const { user } = useSelector((state: RootState) => state.auth);
+  const { comments, writes, total, totalStale, nextCursor, loading, error } = useSelector((state: RootState) => state.comment);
+  const { user, profile } = useSelector((state: RootState) => state.auth);
 
   // Local State: Creation
   const [newContent, setNewContent] = useState('');
-  const [selectedImage, setSelectedImage] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [isPosting, setIsPosting] = useState(false);
+  const [selectedImages, setSelectedImages] = useState<CommentImageDraft[]>([]);
 
   // Local State: Editing
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editContent, setEditContent] = useState('');
-  const [editFile, setEditFile] = useState<File | null>(null);
-  const [editPreviewUrl, setEditPreviewUrl] = useState<string | null>(null);
-  const [keepOldImage, setKeepOldImage] = useState(true);
+  const [editImages, setEditImages] = useState<CommentImageDraft[]>([]);
+
+  // Local State: Replying
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyContent, setReplyContent] = useState('');
+
+  // Local State: Threads the reader has folded away
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+
+  /**
+   * Unconfirmed writes, keyed like `writes` in the store.
+   * `send` re-runs the request; `release` frees its preview URLs once it succeeds or is dismissed.
+   */
+  const pendingWrites = useRef(new Map<string, { send: () => void; release: () => void }>());
+  /** The "Load more" request in flight, aborted if the reader leaves the post */
+  const loadMoreRequest = useRef<{ abort: () => void } | null>(null);
+  /** The reload after a reconnect, aborted if the reader leaves the post or the socket drops again */
+  const reloadRequest = useRef<{ abort: () => void } | null>(null);
+  /** The recount after deletions elsewhere, aborted if the reader leaves the post */
+  const recountRequest = useRef<{ abort: () => void } | null>(null);
+
+  /** Comments arranged into reply threads */
+  const thread = useMemo(() => buildCommentTree(comments), [comments]);
 
   /**
    * Effect: Data Fetching & Real-time Subscription
    * Handles mounting, aborting stale requests, and cleaning up subscriptions.
+   * Realtime rows are applied to the store one by one instead of reloading the thread.
    */
   useEffect(() => {
     // 1. Clear previous blog's comments immediately to prevent ghosting
     dispatch(clearComments());
 
-    // 2. Start fetch and capture the promise to allow abortion
-    const fetchPromise = dispatch(fetchComments(blogId));
+    // 2. Start fetch of the first page and capture the promise to allow abortion
+    const fetchPromise = dispatch(fetchComments({ blogId, cursor: null }));
 
     // 3. Set up unique real-time channel
+    const applyRow = (row: Comment, isInsert: boolean) => {
+      dispatch(isInsert ? insertComment(row) : upsertComment(row));
+      dispatch(fetchCommentAuthor(row.author_id));
+    };
+    let hasSubscribed = false;
+    const pending = pendingWrites.current;
+
     const channelName = `comments-${blogId}`;
     const channel = supabase
       .channel(channelName)
-      .on(
+      .on<Comment>(
+        'postgres_changes', 
+        { event: 'INSERT', schema: 'public', table: 'comments', filter: `blog_id=eq.${blogId}` }, 
+        (payload) => applyRow(payload.new, true)
+      )
+      .on<Comment>(
         'postgres_changes', 
-        { 
-          event: '*', 
-          schema: 'public', 
-          table: 'comments', 
-          filter: `blog_id=eq.${blogId}` 
-        }, 
-        () => dispatch(fetchComments(blogId))
+        { event: 'UPDATE', schema: 'public', table: 'comments', filter: `blog_id=eq.${blogId}` }, 
+        (payload) => applyRow(payload.new, false)
       )
-      .subscribe();
+      // Supabase cannot filter DELETE events, and the old row only carries its ID
+      .on<Comment>(
+        'postgres_changes', 
+        { event: 'DELETE', schema: 'public', table: 'comments' }, 
+        (payload) => {
+          const id = payload.old.id;
+          if (id) dispatch(removeCommentById(id));
+        }
+      )
+      .subscribe((status) => {
+        if (status !== 'SUBSCRIBED') return;
+        // Changes made while the socket was down are never replayed, so reload once after reconnecting
+        if (hasSubscribed) {
+          reloadRequest.current?.abort();
+          reloadRequest.current = dispatch(fetchComments({ blogId, cursor: null, reload: true }));
+        }
+        hasSubscribed = true;
+      });
 
     // 4. Cleanup Function
     return () => {
       fetchPromise.abort(); // Cancel network request if user leaves early
+      loadMoreRequest.current?.abort();
+      reloadRequest.current?.abort();
+      reloadRequest.current = null;
+      recountRequest.current?.abort();
+      recountRequest.current = null;
       dispatch(clearComments());
-      if (previewUrl) revokePreviewUrl(previewUrl);
+      pending.forEach((write) => write.release());
+      pending.clear();
       supabase.removeChannel(channel);
     };
   }, [blogId, dispatch]);
 
   /**
-   * Handler: Selects an image for a new comment.
-   * Validates file type/size and generates a preview.
+   * Effect: Recount after deletions that couldn't be placed.
+   * Every comment DELETE on the site reaches this post, so instead of a count
+   * query per event, one recount runs a few seconds after the first of a burst.
+   */
+  useEffect(() => {
+    if (!totalStale) return;
+    const timer = setTimeout(() => {
+      recountRequest.current = dispatch(refreshCommentTotal(blogId));
+    }, RECOUNT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [totalStale, blogId, dispatch]);
+
+  /** Handler: Loads the next page of comments. */
+  const loadMore = () => {
+    if (loading || !nextCursor) return;
+    loadMoreRequest.current = dispatch(fetchComments({ blogId, cursor: nextCursor }));
+  };
+
+  /**
+   * Sends an optimistic write and remembers how to retry it.
+   * Failures are rolled back by the slice, so there is nothing to catch here.
+   */
+  const trackWrite = (id: string, send: () => Promise<unknown>, release: () => void = () => {}) => {
+    const attempt = () => {
+      send().then(
+        () => {
+          release();
+          pendingWrites.current.delete(id);
+        },
+        () => {}
+      );
+    };
+    pendingWrites.current.set(id, { send: attempt, release });
+    attempt();
+  };
+
+  /** Handler: Sends a failed write again. */
+  const retryWrite = (id: string) => {
+    pendingWrites.current.get(id)?.send();
+  };
+
+  /** Handler: Gives up on a failed write (an unsent comment is discarded). */
+  const dismissWrite = (id: string) => {
+    pendingWrites.current.get(id)?.release();
+    pendingWrites.current.delete(id);
+    dispatch(dismissCommentWrite(id));
+  };
+
+  /**
+   * Builds the comment shown while a new comment or reply is being sent.
+   * The temporary ID is replaced by the real one when the insert succeeds.
+   */
+  const buildDraft = (authorId: string, content: string, imageUrls: string[], parentId: string | null): Comment => {
+    const now = new Date().toISOString();
+    return {
+      id: `temp-${crypto.randomUUID()}`,
+      blog_id: blogId,
+      author_id: authorId,
+      author: profile ? { id: profile.id, display_name: profile.display_name, avatar_url: profile.avatar_url } : null,
+      parent_id: parentId,
+      content,
+      image_url: null,
+      image_urls: imageUrls,
+      deleted_at: null,
+      created_at: now,
+      updated_at: now,
+    };
+  };
+
+  /**
+   * Handler: Adds images to a new comment.
+   * Validates each file, keeps at most MAX_COMMENT_IMAGES and generates previews.
    */
   const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0] || null;
-    if (!file) return;
-    const validationError = validateImageFile(file);
-    if (validationError) { alert(validationError); return; }
-    
-    if (previewUrl) revokePreviewUrl(previewUrl);
-    setSelectedImage(file);
-    setPreviewUrl(createPreviewUrl(file));
+    const { drafts, error } = toImageDrafts(e.target.files, selectedImages.length);
+    e.target.value = '';
+    if (error) alert(error);
+    if (drafts.length > 0) setSelectedImages([...selectedImages, ...drafts]);
   };
 
-  /** Handler: Clears the attached image from the creation form. */
-  const handleRemoveImage = () => {
-    if (previewUrl) revokePreviewUrl(previewUrl);
-    setPreviewUrl(null);
-    setSelectedImage(null);
+  /** Handler: Removes one attached image from the creation form. */
+  const handleRemoveImage = (index: number) => {
+    releaseImageDraft(selectedImages[index]);
+    setSelectedImages(selectedImages.filter((_, i) => i !== index));
   };
 
-  /** Handler: Submits a new comment. */
-  const handlePost = async () => {
+  /** Handler: Submits a new comment. It appears at once and the form is cleared. */
+  const handlePost = () => {
     if (!user) return alert('Log in required');
-    if (!newContent.trim() && !selectedImage) return alert('Comment is empty');
-
-    setIsPosting(true);
-    try {
-      await dispatch(addComment({ 
-        blogId, 
-        authorId: user.id, 
-        content: newContent, 
-        file: selectedImage 
-      })).unwrap();
-      
-      setNewContent('');
-      handleRemoveImage();
-    } finally {
-      setIsPosting(false);
-    }
+    if (!newContent.trim() && selectedImages.length === 0) return alert('Comment is empty');
+
+    // The previews stand in for the uploads until the insert succeeds
+    const images = selectedImages;
+    const draft = buildDraft(user.id, newContent, images.map((image) => image.url), null);
+    const files = images.map((image) => image.file as File);
+    trackWrite(
+      draft.id,
+      () => dispatch(addComment({ draft, files })).unwrap(),
+      () => images.forEach(releaseImageDraft)
+    );
+
+    setNewContent('');
+    setSelectedImages([]);
   };
 
-  /** Handler: Deletes a comment after confirmation. */
-  const handleDelete = (id: string, imageUrl?: string | null) => {
+  /** Handler: Deletes a comment (and all of its images) after confirmation. */
+  const handleDelete = (comment: Comment) => {
     if (window.confirm('Delete comment?')) {
-      dispatch(removeComment({ id, imageUrl }));
+      const imageUrls = getCommentImages(comment);
+      trackWrite(comment.id, () => dispatch(removeComment({ id: comment.id, imageUrls })).unwrap());
+    }
+  };
+
+  // --- Reply Handlers ---
+
+  /** Handler: Opens the reply box under a comment. */
+  const startReply = (parentId: string) => {
+    setReplyingTo(parentId);
+    setReplyContent('');
+  };
+
+  /** Handler: Closes the reply box. */
+  const cancelReply = () => {
+    setReplyingTo(null);
+    setReplyContent('');
+  };
+
+  /** Handler: Posts the reply and expands the thread so it can be seen. */
+  const handleReply = () => {
+    if (!user) return alert('Log in required');
+    if (!replyingTo) return;
+    if (!replyContent.trim()) return alert('Reply is empty');
+
+    const draft = buildDraft(user.id, replyContent, [], replyingTo);
+    trackWrite(draft.id, () => dispatch(addComment({ draft, files: [] })).unwrap());
+
+    const next = new Set(collapsedIds);
+    next.delete(replyingTo);
+    setCollapsedIds(next);
+    cancelReply();
+  };
+
+  /** Handler: Folds or unfolds the replies under a comment. */
+  const toggleCollapsed = (id: string) => {
+    const next = new Set(collapsedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
     }
+    setCollapsedIds(next);
   };
 
   // --- Edit Handlers ---
 
   /** Handler: Enters edit mode for a specific comment. */
-  const startEditing = (comment: any) => {
+  const startEditing = (comment: Comment) => {
     setEditingId(comment.id);
     setEditContent(comment.content);
-    setEditPreviewUrl(comment.image_url);
-    setKeepOldImage(!!comment.image_url);
-    setEditFile(null);
+    setEditImages(getCommentImages(comment).map((url) => ({ url, file: null })));
   };
 
-  /** Handler: Cancels edit mode and resets local edit state. */
-  const cancelEditing = () => {
+  /** Leaves edit mode without touching the images (a save still shows them). */
+  const resetEditing = () => {
     setEditingId(null);
     setEditContent('');
-    setEditFile(null);
-    setEditPreviewUrl(null);
-    setKeepOldImage(true);
+    setEditImages([]);
   };
 
-  /** Handler: Selects a NEW image during edit mode (replaces old one). */
+  /** Handler: Cancels edit mode and frees any images picked for it. */
+  const cancelEditing = () => {
+    editImages.forEach(releaseImageDraft);
+    resetEditing();
+  };
+
+  /** Handler: Adds NEW images during edit mode, after the ones already kept. */
   const handleEditImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setEditFile(file);
-      setEditPreviewUrl(createPreviewUrl(file));
-      setKeepOldImage(false); 
-    }
+    const { drafts, error } = toImageDrafts(e.target.files, editImages.length);
+    e.target.value = '';
+    if (error) alert(error);
+    if (drafts.length > 0) setEditImages([...editImages, ...drafts]);
   };
 
-  /** Handler: Removes the image during edit mode. */
-  const handleRemoveEditImage = () => {
-    setEditFile(null);
-    setEditPreviewUrl(null);
-    setKeepOldImage(false);
+  /** Handler: Removes one image during edit mode (stored images are deleted on save). */
+  const handleRemoveEditImage = (index: number) => {
+    releaseImageDraft(editImages[index]);
+    setEditImages(editImages.filter((_, i) => i !== index));
   };
 
-  /** Handler: Saves the edited comment. */
-  const saveEdit = async (oldImageUrl: string | null) => {
+  /** Handler: Saves the edited comment. The change shows at once and edit mode closes. */
+  const saveEdit = (comment: Comment) => {
     if (!editingId) return;
     
     // Prevent saving empty comments
-    if (!editContent.trim() && !editFile && !keepOldImage) {
+    if (!editContent.trim() && editImages.length === 0) {
         return alert("Comment cannot be empty");
     }
 
-    try {
-      await dispatch(editComment({
-        commentId: editingId,
-        content: editContent,
-        newFile: editFile,
-        oldImageUrl,
-        keepOldImage
-      })).unwrap();
-      
-      cancelEditing();
-    } catch (err) {
-      console.error("Failed to update comment", err);
-    }
+    const keptUrls = editImages.filter((draft) => !draft.file).map((draft) => draft.url);
+    const newFiles = editImages.filter((draft) => draft.file).map((draft) => draft.file as File);
+    const removedUrls = getCommentImages(comment).filter((url) => !keptUrls.includes(url));
+    const images = editImages;
+    // Keeps the old updated_at so the realtime echo of this edit still counts as newer
+    const draft: Comment = { ...comment, content: editContent, image_url: null, image_urls: images.map((image) => image.url) };
+
+    trackWrite(
+      comment.id,
+      () => dispatch(editComment({ draft, keptUrls, newFiles, removedUrls })).unwrap(),
+      () => images.forEach(releaseImageDraft)
+    );
+    resetEditing();
   };
 
   return {
     // Read & Create Props
-    comments, loading, error, user,
+    comments, thread, loading, error, user,
+    total, hasMore: nextCursor !== null, loadMore,
     newContent, setNewContent,
-    previewUrl, isPosting,
+    selectedImages,
     handleImageSelect, handleRemoveImage, handlePost, handleDelete,
     
     // Edit Props
     editingId, 
     editContent, setEditContent,
-    editPreviewUrl,
+    editImages,
     startEditing, cancelEditing, saveEdit, 
-    handleEditImageSelect, handleRemoveEditImage
+    handleEditImageSelect, handleRemoveEditImage,
+
+    // Reply & Thread Props
+    replyingTo, replyContent, setReplyContent,
+    startReply, cancelReply, handleReply,
+    collapsedIds, toggleCollapsed,
+
+    // Optimistic Write Props
+    writes, retryWrite, dismissWrite
   };
 }
\ No newline at end of file
@@ -0,0 +1,274 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import type { AppDispatch, RootState } from '../../app/store';
+import { updateProfile, changePassword } from '../auth/authSlice';
+import { validateImageFile, createPreviewUrl, revokePreviewUrl } from '../../lib/imageUpload';
+import Avatar from '../../components/Avatar';
+import ErrorAlert from '../blog/components/ErrorAlert';
+
+/** Matches the CHECK constraint on profiles.bio */
+const MAX_BIO_LENGTH = 500;
+const MIN_PASSWORD_LENGTH = 6;
+
+/**
+ * AccountSettings Component
+ * * * Lets the signed-in user edit their account at `/settings`.
+ * * FEATURES:
+ * - Profile: Display name and bio, saved to the 'profiles' table.
+ * - Avatar: Cropped to a centered square before upload; can also be removed.
+ * - Password: Changed through Supabase Auth.
+ * - Instant Feedback: Saved profile changes go straight into `state.auth`, so the Navbar updates.
+ */
+export default function AccountSettings() {
+  const dispatch = useDispatch<AppDispatch>();
+  const { user, profile } = useSelector((state: RootState) => state.auth);
+
+  // --- PROFILE FORM ---
+  const [displayName, setDisplayName] = useState(profile?.display_name ?? '');
+  const [bio, setBio] = useState(profile?.bio ?? '');
+  /** @type {string | null} Profile the fields were filled from; null until it has loaded */
+  const [loadedProfileId, setLoadedProfileId] = useState(profile?.id ?? null);
+  /** @type {File | null} Newly chosen avatar, uploaded on save */
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  /** @type {string | null} Object URL previewing `avatarFile` */
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
+  const [removeAvatar, setRemoveAvatar] = useState(false);
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [profileSaved, setProfileSaved] = useState(false);
+
+  // --- PASSWORD FORM ---
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [savingPassword, setSavingPassword] = useState(false);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [passwordSaved, setPasswordSaved] = useState(false);
+
+  // The profile may arrive after the page opens (or only on a later session sync):
+  // fill the fields then, rather than saving blanks over the stored name and bio
+  if (profile && profile.id !== loadedProfileId) {
+    setLoadedProfileId(profile.id);
+    setDisplayName(profile.display_name ?? '');
+    setBio(profile.bio ?? '');
+  }
+
+  // Free each preview URL once it is replaced or the page closes
+  useEffect(() => {
+    return () => {
+      if (avatarPreview) revokePreviewUrl(avatarPreview);
+    };
+  }, [avatarPreview]);
+
+  /**
+   * Validates the chosen image and shows it as the pending avatar.
+   */
+  const handleAvatarSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const validationError = validateImageFile(file);
+    if (validationError) {
+      setProfileError(validationError);
+      return;
+    }
+
+    setProfileError(null);
+    setAvatarFile(file);
+    setAvatarPreview(createPreviewUrl(file));
+    setRemoveAvatar(false);
+  };
+
+  /**
+   * Clears a pending avatar, or marks the current one for removal.
+   */
+  const handleAvatarRemove = () => {
+    if (avatarFile) {
+      setAvatarFile(null);
+      setAvatarPreview(null);
+    } else {
+      setRemoveAvatar(true);
+    }
+  };
+
+  /**
+   * Saves the profile form. Trims the name and bio; blank values are stored as null.
+   */
+  const handleProfileSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile) return;
+    setSavingProfile(true);
+    setProfileError(null);
+    setProfileSaved(false);
+
+    try {
+      await dispatch(updateProfile({
+        display_name: displayName.trim() || null,
+        bio: bio.trim() || null,
+        avatarFile,
+        removeAvatar,
+      })).unwrap();
+      setAvatarFile(null);
+      setAvatarPreview(null);
+      setRemoveAvatar(false);
+      setProfileSaved(true);
+    } catch (error) {
+      setProfileError(error as string);
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  /**
+   * Checks the two password fields match, then sets the new password.
+   */
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordSaved(false);
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setPasswordError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setPasswordError('Passwords do not match.');
+      return;
+    }
+
+    setSavingPassword(true);
+    setPasswordError(null);
+
+    try {
+      await dispatch(changePassword({ password })).unwrap();
+      setPassword('');
+      setConfirmPassword('');
+      setPasswordSaved(true);
+    } catch (error) {
+      setPasswordError(error as string);
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  // What the avatar will look like once saved
+  const shownAvatar = avatarPreview ?? (removeAvatar ? null : profile?.avatar_url ?? null);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-2xl">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-4xl font-bold text-gray-800">Settings</h1>
+        {user && (
+          <Link to={`/u/${user.id}`} className="btn btn-outline">
+            View profile
+          </Link>
+        )}
+      </div>
+
+      {/* Profile Section */}
+      <form onSubmit={handleProfileSubmit} className="card mb-8 space-y-6">
+        <h2 className="text-2xl font-bold text-gray-800">Profile</h2>
+
+        {profileError && <ErrorAlert message={profileError} onDismiss={() => setProfileError(null)} />}
+
+        <div className="flex items-center gap-6">
+          <Avatar profile={{ display_name: displayName || null, avatar_url: shownAvatar }} size="xl" />
+          <div className="flex flex-col gap-2">
+            <label className="btn btn-outline cursor-pointer">
+              <input type="file" accept="image/*" className="hidden" onChange={handleAvatarSelect} />
+              {shownAvatar ? 'Change avatar' : 'Upload avatar'}
+            </label>
+            {shownAvatar && (
+              <button type="button" onClick={handleAvatarRemove} className="text-sm text-red-600 hover:text-red-800">
+                Remove avatar
+              </button>
+            )}
+            <p className="text-xs text-gray-500">Cropped to a square. JPEG, PNG, WebP or GIF, up to 5MB.</p>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="display-name" className="label">Display name</label>
+          <input
+            id="display-name"
+            type="text"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            maxLength={50}
+            className="input"
+            placeholder={user?.email.split('@')[0]}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="bio" className="label">Bio</label>
+          <textarea
+            id="bio"
+            value={bio}
+            onChange={(e) => setBio(e.target.value)}
+            maxLength={MAX_BIO_LENGTH}
+            rows={4}
+            className="input resize-y"
+            placeholder="Tell readers a little about yourself"
+          />
+          <p className="text-xs text-gray-500 mt-1 text-right">
+            {bio.length}/{MAX_BIO_LENGTH}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-4">
+          <button type="submit" disabled={savingProfile || !profile} className="btn btn-primary">
+            {savingProfile ? 'Saving...' : 'Save profile'}
+          </button>
+          {profileSaved && <span className="text-sm text-green-700">Profile saved.</span>}
+          {!profile && <span className="text-sm text-gray-500">Loading your profile...</span>}
+        </div>
+      </form>
+
+      {/* Password Section */}
+      <form onSubmit={handlePasswordSubmit} className="card space-y-6">
+        <h2 className="text-2xl font-bold text-gray-800">Password</h2>
+
+        {passwordError && <ErrorAlert message={passwordError} onDismiss={() => setPasswordError(null)} />}
+
+        <div>
+          <label htmlFor="new-password" className="label">New password</label>
+          <input
+            id="new-password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            minLength={MIN_PASSWORD_LENGTH}
+            autoComplete="new-password"
+            className="input"
+            placeholder="••••••••"
+          />
+          <p className="text-xs text-gray-500 mt-1">Minimum {MIN_PASSWORD_LENGTH} characters</p>
+        </div>
+
+        <div>
+          <label htmlFor="confirm-new-password" className="label">Confirm new password</label>
+          <input
+            id="confirm-new-password"
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            required
+            minLength={MIN_PASSWORD_LENGTH}
+            autoComplete="new-password"
+            className="input"
+            placeholder="••••••••"
+          />
+        </div>
+
+        <div className="flex items-center gap-4">
+          <button type="submit" disabled={savingPassword} className="btn btn-primary">
+            {savingPassword ? 'Updating...' : 'Change password'}
+          </button>
+          {passwordSaved && <span className="text-sm text-green-700">Password changed.</span>}
+        </div>
+      </form>
+    </div>
+  );
+}
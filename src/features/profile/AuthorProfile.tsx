@@ -0,0 +1,181 @@
+import { useEffect } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import type { AppDispatch, RootState } from '../../app/store';
+import type { Blog } from '../../types';
+import { fetchAuthorProfile, fetchAuthorPosts, clearError } from './profileSlice';
+import { deleteBlog } from '../blog/blogSlice';
+import BlogCard from '../blog/components/BlogCard';
+import Pagination from '../blog/components/Pagination';
+import LoadingSpinner from '../blog/components/LoadingSpinner';
+import ErrorAlert from '../blog/components/ErrorAlert';
+import Avatar from '../../components/Avatar';
+import { getDisplayName } from '../../lib/profile';
+
+/** Formats a timestamp the way the rest of the site shows dates */
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+
+/**
+ * AuthorProfile Component
+ * * * Public page for a single author at `/u/:id`.
+ * * FEATURES:
+ * - Header: Avatar, display name, bio and join date.
+ * - Posts: The author's published posts, paginated through `?page=`.
+ * - Recent Comments: Latest comments, each linking to the post it was left on.
+ */
+export default function AuthorProfile() {
+  const { id } = useParams<{ id: string }>();
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+
+  const { user } = useSelector((state: RootState) => state.auth);
+  const { profile, posts, recentComments, loading, error, totalPages, currentPage } = useSelector(
+    (state: RootState) => state.profile
+  );
+
+  // Load the author's details once per author
+  useEffect(() => {
+    if (!id) return;
+    const request = dispatch(fetchAuthorProfile(id));
+    return () => {
+      request.abort();
+    };
+  }, [id, dispatch]);
+
+  // Load a page of posts whenever the author or page changes
+  useEffect(() => {
+    if (!id) return;
+    const request = dispatch(fetchAuthorPosts({ userId: id, page }));
+    return () => {
+      request.abort();
+    };
+  }, [id, page, dispatch]);
+
+  /**
+   * Moves to another page of posts and scrolls to top.
+   */
+  const handlePageChange = (nextPage: number) => {
+    setSearchParams({ page: String(nextPage) });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleEdit = (blog: Blog) => {
+    navigate(`/edit/${blog.id}`);
+  };
+
+  const handleDelete = async (blogId: string) => {
+    if (window.confirm('Are you sure you want to delete this blog?')) {
+      await dispatch(deleteBlog(blogId));
+      // Refill the page from the next one
+      if (id) dispatch(fetchAuthorPosts({ userId: id, page }));
+    }
+  };
+
+  if (loading && !profile) {
+    return <LoadingSpinner message="Loading profile..." />;
+  }
+
+  if (!profile) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        {error && <ErrorAlert message={error} onDismiss={() => dispatch(clearError())} />}
+        <div className="card text-center py-12">
+          <h1 className="text-2xl font-bold text-gray-800 mb-4">Author not found</h1>
+          <p className="text-gray-600 mb-6">This profile doesn't exist or has been removed.</p>
+          <Link to="/" className="btn btn-primary">
+            Browse All Blogs
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header Section */}
+      <div className="card mb-8 flex flex-col sm:flex-row items-center sm:items-start gap-6">
+        <Avatar profile={profile} size="xl" className="shrink-0" />
+        <div className="text-center sm:text-left min-w-0">
+          <h1 className="text-4xl font-bold text-gray-800 mb-2 break-words">
+            {getDisplayName(profile)}
+          </h1>
+          {profile.bio && (
+            <p className="text-gray-700 mb-3 whitespace-pre-wrap">{profile.bio}</p>
+          )}
+          <p className="text-sm text-gray-500">Joined {formatDate(profile.created_at)}</p>
+        </div>
+      </div>
+
+      {error && <ErrorAlert message={error} onDismiss={() => dispatch(clearError())} />}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Posts */}
+        <section className="lg:col-span-2">
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">Posts</h2>
+          {posts.length === 0 ? (
+            <div className="card text-center py-12">
+              <p className="text-gray-600">No published posts yet.</p>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+                {posts.map((blog) => (
+                  <BlogCard
+                    key={blog.id}
+                    blog={blog}
+                    isOwner={user?.id === blog.author_id}
+                    onEdit={handleEdit}
+                    onDelete={handleDelete}
+                  />
+                ))}
+              </div>
+
+              <Pagination
+                currentPage={currentPage}
+                totalPages={totalPages}
+                onPageChange={handlePageChange}
+              />
+            </>
+          )}
+        </section>
+
+        {/* Recent Comments */}
+        <section>
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">Recent comments</h2>
+          {recentComments.length === 0 ? (
+            <div className="card text-center py-8">
+              <p className="text-gray-600">No comments yet.</p>
+            </div>
+          ) : (
+            <ul className="space-y-4">
+              {recentComments.map((comment) => (
+                <li key={comment.id} className="card">
+                  <p className="text-gray-700 line-clamp-3 whitespace-pre-wrap mb-2">{comment.content}</p>
+                  <p className="text-sm text-gray-500">
+                    on{' '}
+                    <Link
+                      to={`/blog/${comment.blog?.slug}`}
+                      className="font-medium text-primary-600 hover:underline"
+                    >
+                      {comment.blog?.title}
+                    </Link>
+                    {' · '}
+                    {formatDate(comment.created_at)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { supabase } from '../../lib/supabase';
+import { cropImageToSquare, uploadImage, deleteImage } from '../../lib/imageUpload';
+import type { AuthorComment, Profile, ProfileInput } from '../../types';
+
+const PROFILE_SELECT = 'id, display_name, avatar_url, bio, role, created_at';
+
+/**
+ * Service layer for user profiles.
+ * Reads the public 'profiles' table that mirrors Supabase Auth users.
+ */
+export const profileService = {
+  /**
+   * Fetches a user's public profile.
+   * Resolves to null when the user has no profile row.
+   */
+  async fetchProfile(userId: string): Promise<Profile | null> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select(PROFILE_SELECT)
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Saves changes to the signed-in user's own profile.
+   * RLS only lets users update their own row.
+   */
+  async updateProfile(userId: string, updates: Partial<ProfileInput>): Promise<Profile> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', userId)
+      .select(PROFILE_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Crops an avatar to a square and uploads it.
+   * @returns The public URL of the uploaded avatar.
+   */
+  async uploadAvatar(userId: string, file: File): Promise<string> {
+    const cropped = await cropImageToSquare(file);
+    return uploadImage(cropped, userId);
+  },
+
+  /**
+   * Removes a replaced avatar from storage.
+   * Avatars hosted elsewhere (e.g. set from signup metadata) are left alone.
+   */
+  async deleteAvatar(avatarUrl: string) {
+    if (avatarUrl.includes('/blog-images/')) {
+      await deleteImage(avatarUrl);
+    }
+  },
+
+  /**
+   * Fetches a user's latest comments together with the post each was left on.
+   * Comments on posts the viewer can't see (e.g. drafts) are left out.
+   */
+  async fetchRecentComments(userId: string, limit = 5): Promise<AuthorComment[]> {
+    const { data, error } = await supabase
+      .from('comments')
+      .select('*, blog:blogs(id, title, slug)')
+      .eq('author_id', userId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return ((data || []) as AuthorComment[]).filter((comment) => comment.blog !== null);
+  },
+};
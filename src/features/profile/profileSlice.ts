@@ -0,0 +1,82 @@
+import { createSlice } from '@reduxjs/toolkit';
+import type { ProfileState } from '../../types';
+import * as thunks from './profileThunks';
+import { deleteBlog } from '../blog/blogThunks';
+import { updateProfile } from '../auth/authSlice';
+
+// Re-export thunks so components can import them from the slice file
+export * from './profileThunks';
+
+const initialState: ProfileState = {
+  profile: null,
+  posts: [],
+  recentComments: [],
+  loading: false,
+  error: null,
+  totalPages: 1,
+  currentPage: 1,
+};
+
+/**
+ * Redux Slice for public author pages.
+ */
+const profileSlice = createSlice({
+  name: 'profile',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    const handlePending = (state: ProfileState) => {
+      state.loading = true;
+      state.error = null;
+    };
+
+    const handleRejected = (state: ProfileState, action: { payload: unknown }) => {
+      state.loading = false;
+      state.error = action.payload as string;
+    };
+
+    builder
+      // Profile + recent comments
+      .addCase(thunks.fetchAuthorProfile.pending, (state) => {
+        handlePending(state);
+        // Don't flash the previous author while the next one loads
+        state.profile = null;
+        state.recentComments = [];
+      })
+      .addCase(thunks.fetchAuthorProfile.fulfilled, (state, action) => {
+        state.loading = false;
+        state.profile = action.payload.profile;
+        state.recentComments = action.payload.recentComments;
+      })
+      .addCase(thunks.fetchAuthorProfile.rejected, handleRejected)
+
+      // Posts
+      .addCase(thunks.fetchAuthorPosts.pending, handlePending)
+      .addCase(thunks.fetchAuthorPosts.fulfilled, (state, action) => {
+        state.loading = false;
+        state.posts = action.payload.posts;
+        state.totalPages = action.payload.totalPages;
+        state.currentPage = action.payload.currentPage;
+      })
+      .addCase(thunks.fetchAuthorPosts.rejected, handleRejected)
+
+      // Show settings changes on the user's own profile page right away
+      .addCase(updateProfile.fulfilled, (state, action) => {
+        if (state.profile?.id === action.payload.id) {
+          state.profile = action.payload;
+        }
+      })
+
+      // Drop a post its author deleted from their own profile page
+      .addCase(deleteBlog.fulfilled, (state, action) => {
+        state.posts = state.posts.filter((b) => b.id !== action.payload);
+      });
+  },
+});
+
+export const { clearError } = profileSlice.actions;
+export default profileSlice.reducer;
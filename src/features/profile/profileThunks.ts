@@ -0,0 +1,45 @@
+import { createAsyncThunk } from '@reduxjs/toolkit';
+import { profileService } from './profileService';
+import { blogService } from '../blog/blogService';
+import type { Blog } from '../../types';
+
+const POSTS_PER_PAGE = 6;
+
+/**
+ * Thunk to load an author's public profile and recent comments.
+ * Resolves with `profile: null` when the user does not exist.
+ */
+export const fetchAuthorProfile = createAsyncThunk(
+  'profile/fetchAuthorProfile',
+  async (userId: string, { rejectWithValue }) => {
+    try {
+      const [profile, recentComments] = await Promise.all([
+        profileService.fetchProfile(userId),
+        profileService.fetchRecentComments(userId),
+      ]);
+      return { profile, recentComments };
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+/**
+ * Thunk to fetch one page of an author's published posts.
+ * Reuses the blog feed query with an author filter.
+ */
+export const fetchAuthorPosts = createAsyncThunk(
+  'profile/fetchAuthorPosts',
+  async ({ userId, page = 1 }: { userId: string; page?: number }, { rejectWithValue }) => {
+    try {
+      const { data, count } = await blogService.fetchPaginatedBlogs(page, POSTS_PER_PAGE, { author: userId });
+      return {
+        posts: data as unknown as Blog[],
+        totalPages: Math.ceil(count / POSTS_PER_PAGE),
+        currentPage: page,
+      };
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
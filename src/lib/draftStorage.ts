@@ -0,0 +1,119 @@
+import type { ImageBlock, TextBlock } from '../types';
+
+/**
+ * Local Draft Storage Configuration
+ * Unsaved editor state is kept in IndexedDB, which (unlike localStorage)
+ * can hold the image files a writer picked but has not uploaded yet.
+ */
+const DB_NAME = 'roblog';
+const DB_VERSION = 1;
+const STORE_NAME = 'blog-drafts';
+
+/**
+ * A content block as stored locally. Image blocks may carry a File that
+ * has not been uploaded; preview URLs are not stored since they die with the tab.
+ */
+export type LocalDraftBlock = TextBlock | (ImageBlock & { file: File | null });
+
+/**
+ * LocalDraft Interface
+ * Snapshot of BlogForm saved while the user types.
+ * @property {string} title - The draft title.
+ * @property {LocalDraftBlock[]} blocks - The draft body, in display order.
+ * @property {number} savedAt - Epoch ms of the snapshot, compared against the server copy.
+ */
+export interface LocalDraft {
+  title: string;
+  blocks: LocalDraftBlock[];
+  savedAt: number;
+}
+
+/**
+ * Builds the storage key for a draft.
+ * @param {string} userId - Owner of the draft, so shared browsers don't mix users.
+ * @param {string} [postId] - The post being edited; omitted for new posts.
+ * @returns {string} Key in the form `{userId}:{postId | 'new'}`.
+ */
+export function getLocalDraftKey(userId: string, postId?: string): string {
+  return `${userId}:${postId || 'new'}`;
+}
+
+/**
+ * Opens (and on first use creates) the drafts database.
+ * @returns {Promise<IDBDatabase>} The open database.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs a single request against the drafts store and closes the connection.
+ * @param {IDBTransactionMode} mode - 'readonly' or 'readwrite'.
+ * @param {(store: IDBObjectStore) => IDBRequest<T>} run - Builds the request.
+ * @returns {Promise<T>} The request result.
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Loads a saved draft.
+ * @param {string} key - Key from getLocalDraftKey.
+ * @returns {Promise<LocalDraft | null>} The draft, or null if none is stored.
+ */
+export async function loadLocalDraft(key: string): Promise<LocalDraft | null> {
+  try {
+    const draft = await withStore<LocalDraft | undefined>('readonly', (store) => store.get(key));
+    return draft ?? null;
+  } catch (error) {
+    console.error('Failed to load local draft:', error);
+    return null;
+  }
+}
+
+/**
+ * Saves (or overwrites) a draft.
+ * @param {string} key - Key from getLocalDraftKey.
+ * @param {LocalDraft} draft - The snapshot to store.
+ * @returns {Promise<void>}
+ */
+export async function saveLocalDraft(key: string, draft: LocalDraft): Promise<void> {
+  try {
+    await withStore('readwrite', (store) => store.put(draft, key));
+  } catch (error) {
+    console.error('Failed to save local draft:', error);
+    // Don't throw - autosave failure shouldn't interrupt writing
+  }
+}
+
+/**
+ * Removes a draft, e.g. once it has been saved to the server.
+ * @param {string} key - Key from getLocalDraftKey.
+ * @returns {Promise<void>}
+ */
+export async function deleteLocalDraft(key: string): Promise<void> {
+  try {
+    await withStore('readwrite', (store) => store.delete(key));
+  } catch (error) {
+    console.error('Failed to delete local draft:', error);
+  }
+}
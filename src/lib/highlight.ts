@@ -0,0 +1,91 @@
+/**
+ * Search-term highlighting used by the search results page.
+ */
+
+/**
+ * HighlightSegment Interface
+ * A run of text that either matches a search term or not.
+ * @property {string} text - The text of the run.
+ * @property {boolean} match - True when the run should be highlighted.
+ */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/** Words Postgres ignores anyway; highlighting them is just noise */
+const IGNORED_TERMS = new Set(['a', 'an', 'and', 'or', 'the', 'of', 'to', 'in', 'on', 'for', 'is']);
+
+/**
+ * Pulls the words out of a search query.
+ * Operators from web-style queries (quotes, `-excluded`, OR) are dropped.
+ * @param {string} query - The raw query from the search box.
+ * @returns {string[]} Lowercase terms, longest first.
+ */
+export function getSearchTerms(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((word) => !word.startsWith('-'))
+    .map((word) => word.replace(/[^\p{L}\p{N}]/gu, ''))
+    .filter((word) => word.length > 1 && !IGNORED_TERMS.has(word));
+  return [...new Set(terms)].sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Builds a regex matching any term at the start of a word.
+ * Matching the rest of the word too approximates Postgres stemming
+ * ("run" also highlights "running").
+ */
+function buildTermPattern(terms: string[]): RegExp | null {
+  if (terms.length === 0) return null;
+  const escaped = terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})[\\p{L}\\p{N}]*`, 'giu');
+}
+
+/**
+ * Splits text into highlighted and plain runs.
+ * @param {string} text - Text to mark up.
+ * @param {string[]} terms - Terms from getSearchTerms.
+ * @returns {HighlightSegment[]} Segments that rebuild the text in order.
+ */
+export function highlightTerms(text: string, terms: string[]): HighlightSegment[] {
+  const pattern = buildTermPattern(terms);
+  if (!pattern) return [{ text, match: false }];
+
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+  for (const found of text.matchAll(pattern)) {
+    const start = found.index ?? 0;
+    if (start > lastIndex) segments.push({ text: text.slice(lastIndex, start), match: false });
+    segments.push({ text: found[0], match: true });
+    lastIndex = start + found[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex), match: false });
+  return segments;
+}
+
+/**
+ * Cuts a window of text around the first matching term, so the
+ * excerpt shows why a post matched instead of just its opening lines.
+ * @param {string} text - The full plain-text body.
+ * @param {string[]} terms - Terms from getSearchTerms.
+ * @param {number} [length=240] - Rough length of the excerpt.
+ * @returns {string} The excerpt, with ellipses where text was cut.
+ */
+export function getMatchExcerpt(text: string, terms: string[], length = 240): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= length) return flat;
+
+  const pattern = buildTermPattern(terms);
+  const firstMatch = pattern ? flat.search(pattern) : -1;
+  // Start a little before the match so it reads in context
+  let start = Math.max(0, firstMatch - Math.floor(length / 4));
+  if (start > 0) {
+    const nextSpace = flat.indexOf(' ', start);
+    if (nextSpace !== -1 && nextSpace < firstMatch) start = nextSpace + 1;
+  }
+  const end = Math.min(flat.length, start + length);
+
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end).trim()}${end < flat.length ? '…' : ''}`;
+}
@@ -6,6 +6,7 @@ import { supabase } from './supabase';
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
 const BUCKET_NAME = 'blog-images';
+const AVATAR_SIZE = 256; // px, width and height of cropped avatars
 
 /**
  * Validates an image file before upload.
@@ -97,6 +98,56 @@ export async function deleteImage(imageUrl: string): Promise<void> {
   }
 }
 
+/**
+ * Crops an image to a centered square and scales it down for use as an avatar.
+ * @param {File} file - The image file chosen by the user.
+ * @param {number} size - Width and height of the result in pixels.
+ * @returns {Promise<File>} A JPEG file ready for `uploadImage`.
+ * @throws {Error} If the file is invalid or can't be decoded.
+ */
+export async function cropImageToSquare(file: File, size: number = AVATAR_SIZE): Promise<File> {
+  const validationError = validateImageFile(file);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const bitmap = await createImageBitmap(file);
+  const side = Math.min(bitmap.width, bitmap.height);
+  const outputSize = Math.min(size, side);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = outputSize;
+  canvas.height = outputSize;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Could not process image.');
+  }
+
+  // Take the largest centered square and scale it onto the canvas
+  context.drawImage(
+    bitmap,
+    (bitmap.width - side) / 2,
+    (bitmap.height - side) / 2,
+    side,
+    side,
+    0,
+    0,
+    outputSize,
+    outputSize
+  );
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+  if (!blob) {
+    throw new Error('Could not process image.');
+  }
+
+  const baseName = file.name.replace(/\.[^.]+$/, '') || 'avatar';
+  return new File([blob], `${baseName}.jpg`, { type: 'image/jpeg' });
+}
+
 /**
  * Creates a preview URL for a File object.
  * @param {File} file - The image file.
@@ -0,0 +1,9 @@
+/**
+ * Turns free text into an ILIKE "contains" pattern, escaping its wildcards,
+ * so a search for "50%" or "snake_case" matches those characters literally.
+ * @param {string} search - Text typed by the user.
+ * @returns {string} Pattern such as '%50\%%'.
+ */
+export function toContainsPattern(search: string): string {
+  return `%${search.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
@@ -0,0 +1,48 @@
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+
+/**
+ * Markdown Configuration
+ * GitHub-flavoured Markdown, with single line breaks kept as <br>
+ * so posts written before Markdown support look the same.
+ */
+marked.use({ gfm: true, breaks: true });
+
+/**
+ * Sanitizer Configuration
+ * DOMPurify already strips <script>, on* event handlers and
+ * javascript: URLs; inline styles and embeds are dropped on top of that.
+ */
+const SANITIZE_OPTIONS = {
+  FORBID_TAGS: ['style', 'iframe', 'object', 'embed', 'form'],
+  FORBID_ATTR: ['style'],
+};
+
+// Links written by authors open in a new tab without access to this window
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A' && node.getAttribute('href')) {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer nofollow');
+  }
+});
+
+/**
+ * Converts Markdown to sanitized HTML that is safe to inject.
+ * @param {string} markdown - Markdown source written by a user.
+ * @returns {string} Sanitized HTML.
+ */
+export function renderMarkdown(markdown: string): string {
+  const html = marked.parse(markdown, { async: false });
+  return DOMPurify.sanitize(html, SANITIZE_OPTIONS);
+}
+
+/**
+ * Converts Markdown to plain text, e.g. for excerpts.
+ * @param {string} markdown - Markdown source written by a user.
+ * @returns {string} The visible text with all syntax removed.
+ */
+export function markdownToPlainText(markdown: string): string {
+  const html = renderMarkdown(markdown);
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return (doc.body.textContent || '').replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,46 @@
+import type { Profile, ProfileSummary, UserRole } from '../types';
+
+/** Each role includes the rights of the ones ranked below it */
+const ROLE_RANK: Record<UserRole, number> = {
+  user: 0,
+  moderator: 1,
+  admin: 2,
+};
+
+/**
+ * Picks the name to show for a user.
+ * @param {Pick<ProfileSummary, 'display_name'> | null} [profile] - The user's profile, if loaded.
+ * @param {string} [fallback='Anonymous'] - Shown when there is no display name.
+ * @returns {string} The display name or the fallback.
+ */
+export function getDisplayName(
+  profile?: Pick<ProfileSummary, 'display_name'> | null,
+  fallback = 'Anonymous'
+): string {
+  return profile?.display_name?.trim() || fallback;
+}
+
+/**
+ * Builds up to two initials for an avatar placeholder.
+ * @param {string} name - A display name.
+ * @returns {string} Uppercase initials such as 'JD', or '?' for an empty name.
+ */
+export function getInitials(name: string): string {
+  const initials = name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((word) => word[0])
+    .join('');
+  return initials.toUpperCase() || '?';
+}
+
+/**
+ * Checks whether a user has at least the given role.
+ * @param {Pick<Profile, 'role'> | null} [profile] - The user's profile, if loaded.
+ * @param {UserRole} role - The minimum role required.
+ * @returns {boolean} True for that role or a higher one (admins pass moderator checks).
+ */
+export function hasRole(profile: Pick<Profile, 'role'> | null | undefined, role: UserRole): boolean {
+  return !!profile && ROLE_RANK[profile.role] >= ROLE_RANK[role];
+}
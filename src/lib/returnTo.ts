@@ -0,0 +1,50 @@
+import type { Location } from 'react-router-dom';
+
+/** Pages a user should never be sent back to after logging in */
+const AUTH_PATHS = ['/login', '/register', '/forgot-password', '/reset-password'];
+
+/**
+ * Router state set by ProtectedRoute when it redirects a guest to /login.
+ * @property {Location} [from] - The page they were trying to open.
+ */
+export interface ReturnToState {
+  from?: Location;
+}
+
+/**
+ * Checks that a return path stays on this site and isn't an auth page.
+ * Rejects absolute and protocol-relative URLs such as '//evil.example'.
+ */
+function isSafeReturnPath(path: string | null | undefined): path is string {
+  if (!path || !path.startsWith('/') || path.startsWith('//') || path.startsWith('/\\')) return false;
+  const pathname = path.split(/[?#]/)[0];
+  return !AUTH_PATHS.includes(pathname);
+}
+
+/**
+ * Builds the /login URL for a page that requires a session.
+ * The page is kept in `?next=` so it survives a refresh or a trip through Register.
+ * @param {Location} location - The page being protected.
+ * @returns {string} e.g. '/login?next=%2Fedit%2F123'
+ */
+export function getLoginPath(location: Location): string {
+  const next = `${location.pathname}${location.search}${location.hash}`;
+  return isSafeReturnPath(next) ? `/login?next=${encodeURIComponent(next)}` : '/login';
+}
+
+/**
+ * Picks where to go after logging in or registering.
+ * Router state from ProtectedRoute wins, then `?next=`, then the home page.
+ * @param {Location} location - The current (login or register) location.
+ * @returns {string} A same-site path.
+ */
+export function getReturnTo(location: Location): string {
+  const from = (location.state as ReturnToState | null)?.from;
+  if (from) {
+    const path = `${from.pathname}${from.search}${from.hash}`;
+    if (isSafeReturnPath(path)) return path;
+  }
+
+  const next = new URLSearchParams(location.search).get('next');
+  return isSafeReturnPath(next) ? next : '/';
+}
@@ -0,0 +1,14 @@
+/**
+ * Turns free text into a URL-safe slug.
+ * Accents are stripped, runs of other characters become single dashes.
+ * @param {string} text - Text to convert, e.g. a tag name or post title.
+ * @returns {string} Lowercase slug such as 'react-19-tips' (may be empty).
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,144 @@
+/**
+ * Word-level diff used by the post history view.
+ */
+
+/**
+ * DiffSegment Interface
+ * A run of text that is unchanged, added, or removed between two versions.
+ * @property {'same' | 'added' | 'removed'} type - How the text changed.
+ * @property {string} text - The text of the run, whitespace included.
+ */
+export interface DiffSegment {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Splits text into words and the whitespace between them,
+ * so joining the tokens gives back the original text.
+ * @param {string} text - Text to split.
+ * @returns {string[]} Alternating word and whitespace tokens.
+ */
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter((token) => token.length > 0);
+}
+
+/**
+ * Appends a token to the segment list, merging it into the previous
+ * segment when both have the same type.
+ */
+function pushSegment(segments: DiffSegment[], type: DiffSegment['type'], text: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Above this many token comparisons the changed middle is shown as one
+ * removed block and one added block, so huge rewrites don't stall the page.
+ */
+const MAX_DIFF_CELLS = 25_000_000;
+
+/**
+ * Computes one row of longest-common-subsequence lengths in linear space.
+ * Forwards, entry k is the LCS of a[aStart..aEnd) and the first k tokens of b[bStart..bEnd);
+ * backwards, it is the LCS with the last k tokens of that range.
+ */
+function lcsRow(
+  a: string[], aStart: number, aEnd: number,
+  b: string[], bStart: number, bEnd: number,
+  backwards: boolean
+): Uint32Array {
+  const n = bEnd - bStart;
+  let prev = new Uint32Array(n + 1);
+  let curr = new Uint32Array(n + 1);
+  for (let x = 0; x < aEnd - aStart; x++) {
+    const token = backwards ? a[aEnd - 1 - x] : a[aStart + x];
+    for (let y = 1; y <= n; y++) {
+      const other = backwards ? b[bEnd - y] : b[bStart + y - 1];
+      curr[y] = token === other ? prev[y - 1] + 1 : Math.max(prev[y], curr[y - 1]);
+    }
+    [prev, curr] = [curr, prev];
+  }
+  return prev;
+}
+
+/**
+ * Diffs a[aStart..aEnd) against b[bStart..bEnd) with Hirschberg's algorithm:
+ * split `a` in half, find where the best alignment crosses `b`, and recurse.
+ * Memory stays proportional to the length of `b` rather than to both lengths multiplied.
+ */
+function diffRange(
+  segments: DiffSegment[],
+  a: string[], aStart: number, aEnd: number,
+  b: string[], bStart: number, bEnd: number
+) {
+  if (aStart === aEnd) {
+    for (let j = bStart; j < bEnd; j++) pushSegment(segments, 'added', b[j]);
+    return;
+  }
+  if (bStart === bEnd) {
+    for (let i = aStart; i < aEnd; i++) pushSegment(segments, 'removed', a[i]);
+    return;
+  }
+  if (aEnd - aStart === 1) {
+    const match = b.indexOf(a[aStart], bStart);
+    if (match === -1 || match >= bEnd) {
+      pushSegment(segments, 'removed', a[aStart]);
+      for (let j = bStart; j < bEnd; j++) pushSegment(segments, 'added', b[j]);
+      return;
+    }
+    for (let j = bStart; j < match; j++) pushSegment(segments, 'added', b[j]);
+    pushSegment(segments, 'same', a[aStart]);
+    for (let j = match + 1; j < bEnd; j++) pushSegment(segments, 'added', b[j]);
+    return;
+  }
+
+  const mid = (aStart + aEnd) >> 1;
+  const head = lcsRow(a, aStart, mid, b, bStart, bEnd, false);
+  const tail = lcsRow(a, mid, aEnd, b, bStart, bEnd, true);
+  const n = bEnd - bStart;
+  let split = 0;
+  for (let k = 1; k <= n; k++) {
+    if (head[k] + tail[n - k] > head[split] + tail[n - split]) split = k;
+  }
+  diffRange(segments, a, aStart, mid, b, bStart, bStart + split);
+  diffRange(segments, a, mid, aEnd, b, bStart + split, bEnd);
+}
+
+/**
+ * Computes a word-level diff between two texts.
+ * The unchanged start and end are skipped first; the rest is aligned by
+ * longest common subsequence (see diffRange), unless it is too large.
+ * @param {string} before - The older text.
+ * @param {string} after - The newer text.
+ * @returns {DiffSegment[]} Segments that rebuild both texts in order.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let aEnd = a.length;
+  let bEnd = b.length;
+  while (aEnd > start && bEnd > start && a[aEnd - 1] === b[bEnd - 1]) {
+    aEnd--;
+    bEnd--;
+  }
+
+  const segments: DiffSegment[] = [];
+  for (let i = 0; i < start; i++) pushSegment(segments, 'same', a[i]);
+  if ((aEnd - start) * (bEnd - start) > MAX_DIFF_CELLS) {
+    for (let i = start; i < aEnd; i++) pushSegment(segments, 'removed', a[i]);
+    for (let j = start; j < bEnd; j++) pushSegment(segments, 'added', b[j]);
+  } else {
+    diffRange(segments, a, start, aEnd, b, start, bEnd);
+  }
+  for (let i = aEnd; i < a.length; i++) pushSegment(segments, 'same', a[i]);
+
+  return segments;
+}
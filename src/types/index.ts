@@ -9,54 +9,288 @@ export interface User {
   email: string;
 }
 
+/**
+ * UserRole Type
+ * What a user may do beyond managing their own content.
+ * - 'user': Regular account.
+ * - 'moderator': Can edit or remove anyone's posts and comments.
+ * - 'admin': Moderator who can also assign roles.
+ */
+export type UserRole = 'user' | 'moderator' | 'admin';
+
+/**
+ * Profile Interface
+ * Public information about a user, stored in the Supabase 'profiles' table
+ * and created automatically on signup.
+ * @property {string} id - Same UUID as the user in Supabase Auth.
+ * @property {string | null} display_name - Name shown next to posts and comments.
+ * @property {string | null} avatar_url - Optional URL to the user's avatar image.
+ * @property {string | null} bio - Short self-description shown on the author page.
+ * @property {UserRole} role - Moderation rights; see UserRole.
+ * @property {string} created_at - ISO timestamp of when the user joined.
+ */
+export interface Profile {
+  id: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  bio: string | null;
+  role: UserRole;
+  created_at: string;
+}
+
+/**
+ * ProfileSummary Type
+ * The profile fields embedded next to posts and comments.
+ */
+export type ProfileSummary = Pick<Profile, 'id' | 'display_name' | 'avatar_url'>;
+
+/**
+ * ProfileInput Type
+ * The profile fields a user can change from the settings page.
+ */
+export type ProfileInput = Pick<Profile, 'display_name' | 'bio' | 'avatar_url'>;
+
+/**
+ * TextBlock Interface
+ * A paragraph-style chunk of post content.
+ * @property {string} id - Stable identifier, unique within the post.
+ * @property {'text'} type - Discriminator for the ContentBlock union.
+ * @property {number} order - Zero-based position of the block in the post.
+ * @property {string} text - The text body of the block.
+ * @property {'plain' | 'markdown'} [format] - How `text` is rendered. Missing means 'plain'.
+ */
+export interface TextBlock {
+  id: string;
+  type: 'text';
+  order: number;
+  text: string;
+  format?: 'plain' | 'markdown';
+}
+
+/**
+ * ImageBlock Interface
+ * An image placed between text blocks, with an optional caption.
+ * @property {string} id - Stable identifier, unique within the post.
+ * @property {'image'} type - Discriminator for the ContentBlock union.
+ * @property {number} order - Zero-based position of the block in the post.
+ * @property {string} image_url - Public URL of the image in Supabase Storage.
+ * @property {string | null} caption - Optional text shown under the image.
+ */
+export interface ImageBlock {
+  id: string;
+  type: 'image';
+  order: number;
+  image_url: string;
+  caption: string | null;
+}
+
+/**
+ * ContentBlock Type
+ * One entry of the `content_blocks` JSONB array on the 'blogs' table.
+ * Narrow on `type` to tell text and image blocks apart.
+ */
+export type ContentBlock = TextBlock | ImageBlock;
+
+/**
+ * BlogStatus Type
+ * Publication state of a post. Scheduled posts go live at `publish_at`.
+ */
+export type BlogStatus = 'draft' | 'published' | 'scheduled';
+
+/**
+ * Tag Interface
+ * A topic label stored in the 'tags' table and linked to posts through 'blog_tags'.
+ * @property {string} id - Unique identifier for the tag.
+ * @property {string} name - Display name, as first typed by a writer.
+ * @property {string} slug - URL-safe, unique form of the name used in `/tag/:slug`.
+ */
+export interface Tag {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+/**
+ * BlogCursor Interface
+ * Position in the feed for keyset pagination: the last post already loaded.
+ * @property {string | number} value - That post's value in the sort column (e.g. `created_at`).
+ * @property {string} id - ID of that post, breaking ties between equal values.
+ */
+export interface BlogCursor {
+  value: string | number;
+  id: string;
+}
+
+/**
+ * Sort orders offered by the blog feed.
+ * 'newest' / 'oldest' use `created_at`, 'updated' uses `updated_at`
+ * and 'most-commented' uses `comment_count`.
+ */
+export type BlogSort = 'newest' | 'oldest' | 'most-commented' | 'updated';
+
+/**
+ * BlogFilters Interface
+ * Optional sorting and filters for the blog feed, mirrored in the URL query string.
+ * @property {string} [tag] - Only posts carrying the tag with this slug.
+ * @property {BlogSort} [sort] - Sort order; defaults to 'newest'.
+ * @property {string} [author] - Only posts by the author with this ID.
+ * @property {string} [from] - Only posts created on or after this day (YYYY-MM-DD).
+ * @property {string} [to] - Only posts created on or before this day (YYYY-MM-DD).
+ */
+export interface BlogFilters {
+  tag?: string;
+  sort?: BlogSort;
+  author?: string;
+  from?: string;
+  to?: string;
+}
+
 /**
  * Blog Interface
  * Defines the structure of a blog post as stored in the Supabase 'blogs' table.
  * @property {string} id - Unique identifier for the post.
  * @property {string} title - The headline of the blog post.
+ * @property {string} slug - Unique, URL-safe form of the title used in `/blog/:slug`.
  * @property {string} content - The main body text of the post.
  * @property {string | null} image_url - Optional URL to the blog's featured image stored in Supabase Storage.
+ * @property {ContentBlock[] | null} content_blocks - Ordered text and image blocks that make up the post body.
+ * @property {BlogStatus} status - Whether the post is a draft, published, or scheduled.
+ * @property {string} publish_at - ISO timestamp from which the post is publicly visible.
+ * @property {number} comment_count - Number of comments, kept in step by a database trigger.
+ * @property {Tag[]} [tags] - Tags joined in through 'blog_tags', when the query embeds them.
  * @property {string} author_id - Foreign key linking to the User who created it.
+ * @property {ProfileSummary | null} [author] - The author's profile, when the query embeds it.
  * @property {string} created_at - ISO timestamp of when the post was first saved.
  * @property {string} updated_at - ISO timestamp of the last time the post was modified.
  */
 export interface Blog {
   id: string;
   title: string;
+  slug: string;
   content: string;
   image_url: string | null;
+  content_blocks: ContentBlock[] | null;
+  status: BlogStatus;
+  publish_at: string;
+  comment_count: number;
+  tags?: Tag[];
   author_id: string;
+  author?: ProfileSummary | null;
   created_at: string;
   updated_at: string;
 }
+
+/**
+ * BlogInput Type
+ * The writable columns of a blog post, as sent on create and update.
+ */
+export type BlogInput = Pick<Blog, 'title' | 'content' | 'image_url' | 'content_blocks' | 'status' | 'publish_at'>;
+/**
+ * BlogRevision Interface
+ * A previous version of a post, stored in the 'blog_revisions' table by a database trigger.
+ * @property {string} id - Unique identifier for the revision.
+ * @property {string} blog_id - Foreign key linking to the post.
+ * @property {string} author_id - Author of the post (only they can read its history).
+ * @property {string} title - Title at the time.
+ * @property {string} content - Plain-text content at the time.
+ * @property {string | null} image_url - Featured image at the time.
+ * @property {ContentBlock[] | null} content_blocks - Body blocks at the time.
+ * @property {string} saved_at - ISO timestamp of when this version was saved.
+ * @property {string} created_at - ISO timestamp of when this version was replaced.
+ */
+export interface BlogRevision {
+  id: string;
+  blog_id: string;
+  author_id: string;
+  title: string;
+  content: string;
+  image_url: string | null;
+  content_blocks: ContentBlock[] | null;
+  saved_at: string;
+  created_at: string;
+}
+
 /**
  * Comment Interface
  * Defines the structure of a comment as stored in the Supabase 'comments' table.
  * @property {string} id - Unique identifier for the comment.
  * @property {string} blog_id - Foreign key linking to the parent Blog post.
  * @property {string} author_id - Foreign key linking to the User who wrote the comment.
+ * @property {ProfileSummary | null} [author] - The commenter's profile, when the query embeds it.
+ * @property {string | null} parent_id - The comment this one replies to, or null for a top-level comment.
  * @property {string} content - The text body of the comment.
- * @property {string | null} image_url - Optional URL to an image attached to the comment.
+ * @property {string | null} image_url - Legacy single image; only set on comments from before `image_urls`.
+ * @property {string[]} image_urls - URLs of the images attached to the comment, in display order.
+ * @property {string | null} deleted_at - Set when a comment with replies was deleted; it stays as a "[deleted]" placeholder.
  * @property {string} created_at - ISO timestamp of when the comment was created.
+ * @property {string} updated_at - ISO timestamp of the last edit (same as created_at if never edited).
  */
 export interface Comment {
   id: string;
   blog_id: string;
   author_id: string;
+  author?: ProfileSummary | null;
+  parent_id: string | null;
   content: string;
   image_url: string | null;
+  image_urls: string[];
+  deleted_at: string | null;
   created_at: string;
+  updated_at: string;
+}
+
+/**
+ * AuthorComment Interface
+ * A comment listed on its author's profile page, with the post it was left on.
+ * @property {Pick<Blog, 'id' | 'title' | 'slug'> | null} blog - The post, or null if it is no longer visible.
+ */
+export interface AuthorComment extends Comment {
+  blog: Pick<Blog, 'id' | 'title' | 'slug'> | null;
+}
+
+/**
+ * CommentCursor Interface
+ * Position in a post's comments for keyset pagination: the last comment already loaded.
+ * @property {string} created_at - That comment's creation time.
+ * @property {string} id - ID of that comment, breaking ties between equal times.
+ */
+export interface CommentCursor {
+  created_at: string;
+  id: string;
+}
+
+/**
+ * CommentWrite Interface
+ * A create, edit or delete already shown in the thread but not yet confirmed by the server.
+ * @property {'create' | 'edit' | 'delete'} action - What the user did.
+ * @property {'sending' | 'failed'} status - Still in flight, or rolled back and waiting for a retry.
+ * @property {Comment | null} previous - The confirmed version to restore on failure (null for a create).
+ * @property {string | null} error - Why the last attempt failed.
+ */
+export interface CommentWrite {
+  action: 'create' | 'edit' | 'delete';
+  status: 'sending' | 'failed';
+  previous: Comment | null;
+  error: string | null;
 }
 
 /**
  * CommentState Interface
  * Defines the structure of the Redux slice state for managing comments.
  * @property {Comment[]} comments - Array of comment records currently loaded into the store.
+ * @property {Record<string, CommentWrite>} writes - Unconfirmed changes, keyed by comment ID (temporary ID for a create).
+ * @property {number} total - Number of comments on the post, including ones not loaded yet.
+ * @property {CommentCursor | null} nextCursor - Where the next page starts; null once every comment is loaded.
+ * @property {boolean} totalStale - True when a comment that isn't loaded was deleted, so `total` may be one too high.
  * @property {boolean} loading - Loading indicator for fetch/create/delete operations.
  * @property {string | null} error - Error message string if an operation fails.
  */
 export interface CommentState {
   comments: Comment[];
+  writes: Record<string, CommentWrite>;
+  total: number;
+  nextCursor: CommentCursor | null;
+  totalStale: boolean;
   loading: boolean;
   error: string | null;
 }
@@ -64,11 +298,17 @@ export interface CommentState {
  * AuthState Interface
  * Shape of the authentication data stored in Redux.
  * @property {User | null} user - The current session user, or null if logged out.
+ * @property {Profile | null} profile - The current user's public profile (display name, avatar).
+ * @property {string | null} pendingEmail - Address that must be confirmed before a new account can log in.
+ * @property {string | null} expiredEmail - Email of a user whose session ended without them logging out.
  * @property {boolean} loading - True if an auth request (login/register) is in progress.
  * @property {string | null} error - Error message from the latest auth attempt.
  */
 export interface AuthState {
   user: User | null;
+  profile: Profile | null;
+  pendingEmail: string | null;
+  expiredEmail: string | null;
   loading: boolean;
   error: string | null;
 }
@@ -77,17 +317,93 @@ export interface AuthState {
  * BlogState Interface
  * Shape of the blog-related data stored in Redux.
  * @property {Blog[]} blogs - Array of blog posts currently loaded in memory.
+ * @property {Blog[]} drafts - The logged-in author's drafts and scheduled posts.
  * @property {Blog | null} currentBlog - The specific post being viewed or edited.
+ * @property {BlogRevision[]} revisions - Previous versions of the current post, newest first.
+ * @property {Tag | null} activeTag - The tag the feed is filtered by, if any.
+ * @property {Tag[]} tagSuggestions - Autocomplete matches for the tag input.
+ * @property {ProfileSummary[]} authors - Authors offered by the feed's author filter.
+ * @property {Blog[]} searchResults - The current page of full-text search results.
+ * @property {number} searchTotal - Total number of posts matching the search.
+ * @property {number} searchTotalPages - Total pages of search results.
+ * @property {number} searchPage - The page of search results being shown.
+ * @property {boolean} searchLoading - True while a search is running; kept apart from `loading` so the feed and forms aren't affected.
+ * @property {string | null} searchRequestId - The search still loading, if any; older aborted ones are ignored.
  * @property {boolean} loading - True while fetching or saving data to Supabase.
  * @property {string | null} error - Error message from the latest database operation.
  * @property {number} totalPages - Total pages available based on current database count.
  * @property {number} currentPage - The current active page index for pagination.
+ * @property {BlogCursor | null} nextCursor - Where the next infinite-scroll slice starts; null when the feed is exhausted.
+ * @property {string | null} feedRequestId - The feed request still loading, if any; older aborted ones are ignored.
  */
 export interface BlogState {
   blogs: Blog[];
+  drafts: Blog[];
   currentBlog: Blog | null;
+  revisions: BlogRevision[];
+  activeTag: Tag | null;
+  tagSuggestions: Tag[];
+  authors: ProfileSummary[];
+  searchResults: Blog[];
+  searchTotal: number;
+  searchTotalPages: number;
+  searchPage: number;
+  searchLoading: boolean;
+  searchRequestId: string | null;
+  loading: boolean;
+  error: string | null;
+  totalPages: number;
+  currentPage: number;
+  nextCursor: BlogCursor | null;
+  feedRequestId: string | null;
+}
+
+/**
+ * ProfileState Interface
+ * Shape of the public author page data stored in Redux.
+ * @property {Profile | null} profile - The author being viewed.
+ * @property {Blog[]} posts - The current page of the author's published posts.
+ * @property {AuthorComment[]} recentComments - The author's latest comments, newest first.
+ * @property {boolean} loading - True while the page data is being fetched.
+ * @property {string | null} error - Error message from the latest request.
+ * @property {number} totalPages - Total pages of the author's posts.
+ * @property {number} currentPage - The page of posts being shown.
+ */
+export interface ProfileState {
+  profile: Profile | null;
+  posts: Blog[];
+  recentComments: AuthorComment[];
   loading: boolean;
   error: string | null;
   totalPages: number;
   currentPage: number;
-}
\ No newline at end of file
+}
+
+/**
+ * AdminTab Type
+ * The lists in the admin console.
+ */
+export type AdminTab = 'users' | 'posts' | 'comments';
+
+/**
+ * AdminState Interface
+ * Shape of the admin console data stored in Redux. Only the open tab's list is loaded.
+ * @property {Profile[]} users - The current page of users.
+ * @property {Blog[]} posts - The current page of posts.
+ * @property {AuthorComment[]} comments - The current page of comments, with their posts.
+ * @property {number} total - Number of rows matching the search in the open tab.
+ * @property {boolean} loading - True while a list is loading or a bulk action runs.
+ * @property {string | null} error - Error message from the latest request.
+ * @property {number} totalPages - Total pages for the open tab.
+ * @property {number} currentPage - The page being shown.
+ */
+export interface AdminState {
+  users: Profile[];
+  posts: Blog[];
+  comments: AuthorComment[];
+  total: number;
+  loading: boolean;
+  error: string | null;
+  totalPages: number;
+  currentPage: number;
+}